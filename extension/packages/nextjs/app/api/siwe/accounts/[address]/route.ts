@@ -0,0 +1,66 @@
+/**
+ * SIWE Single Linked Account API Route
+ *
+ * Requires an account store (`accountStore` in siwe.config.ts).
+ *
+ * DELETE /api/siwe/accounts/:address
+ * - Unlinks a wallet from the signed in user
+ * - The active address cannot be unlinked (switch to another wallet first)
+ * - Revokes the sessions of the unlinked wallet (when a session store is enabled)
+ */
+import { NextResponse } from "next/server";
+import { isAddress, isAddressEqual } from "viem";
+import { SiweErrorCode } from "~~/utils/siwe";
+import { getAccountStore } from "~~/utils/siwe.accountStore";
+import { emitAuditEvent } from "~~/utils/siwe.audit";
+import { accountLinkingDisabledResponse, siweErrorResponse, withSiweAuth } from "~~/utils/siwe.server";
+import { getSessionStore } from "~~/utils/siwe.sessionStore";
+
+type RouteContext = { params: Promise<{ address: string }> };
+
+/**
+ * DELETE - Unlink a wallet
+ */
+export const DELETE = withSiweAuth<RouteContext>(async (request, session, { params }) => {
+  const store = getAccountStore();
+  if (!store) return accountLinkingDisabledResponse();
+
+  try {
+    const { address } = await params;
+
+    if (!isAddress(address)) {
+      return siweErrorResponse(SiweErrorCode.INVALID_REQUEST, "Invalid address.", 400);
+    }
+
+    if (isAddressEqual(address, session.address)) {
+      return siweErrorResponse(
+        SiweErrorCode.INVALID_REQUEST,
+        "The active wallet cannot be unlinked. Switch to another wallet first.",
+        400,
+      );
+    }
+
+    if (!session.userId || !(await store.unlink(session.userId, address))) {
+      return siweErrorResponse(SiweErrorCode.ACCOUNT_NOT_LINKED, "This wallet is not linked to your account.", 404);
+    }
+
+    // Sessions signed in with the unlinked wallet (e.g. a lost key) must not outlive the link.
+    // Without a session store they are rejected on their next request (see isSessionAccountLinked).
+    await getSessionStore()?.revokeAllForAddress(address);
+
+    session.linkedAddresses = (await store.listAccounts(session.userId)).map(account => account.address);
+    await session.save();
+
+    emitAuditEvent(request, {
+      type: "account_unlinked",
+      userId: session.userId,
+      address,
+      sessionId: session.sessionId,
+    });
+
+    return NextResponse.json({ ok: true, linkedAddresses: session.linkedAddresses });
+  } catch (error) {
+    console.error("Error unlinking account:", error);
+    return siweErrorResponse(SiweErrorCode.INTERNAL_ERROR, "Failed to unlink account", 500);
+  }
+});
@@ -0,0 +1,38 @@
+/**
+ * SIWE Linked Accounts API Route
+ *
+ * Requires an account store (`accountStore` in siwe.config.ts).
+ *
+ * GET /api/siwe/accounts
+ * - Lists the wallets linked to the signed in user
+ * - The session's active address is flagged with isActive
+ *
+ * Wallets are linked with POST /api/siwe/verify (`mode: "link"`) and
+ * unlinked with DELETE /api/siwe/accounts/:address.
+ */
+import { NextResponse } from "next/server";
+import { isAddressEqual } from "viem";
+import { SiweErrorCode } from "~~/utils/siwe";
+import { getAccountStore } from "~~/utils/siwe.accountStore";
+import { accountLinkingDisabledResponse, siweErrorResponse, withSiweAuth } from "~~/utils/siwe.server";
+
+/**
+ * GET - List linked wallets
+ */
+export const GET = withSiweAuth(async (_request, session) => {
+  const store = getAccountStore();
+  if (!store) return accountLinkingDisabledResponse();
+
+  try {
+    const accounts = session.userId ? await store.listAccounts(session.userId) : [];
+
+    return NextResponse.json({
+      ok: true,
+      userId: session.userId,
+      accounts: accounts.map(account => ({ ...account, isActive: isAddressEqual(account.address, session.address) })),
+    });
+  } catch (error) {
+    console.error("Error listing linked accounts:", error);
+    return siweErrorResponse(SiweErrorCode.INTERNAL_ERROR, "Failed to list linked accounts", 500);
+  }
+});
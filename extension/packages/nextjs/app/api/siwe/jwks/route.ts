@@ -0,0 +1,29 @@
+/**
+ * SIWE JWKS API Route
+ *
+ * GET /api/siwe/jwks
+ * - Returns the public keys (JSON Web Key Set) used to sign access tokens
+ * - Other services use it to verify `Authorization: Bearer` tokens
+ *
+ * Requires `jwt.enabled` in siwe.config.ts.
+ */
+import { NextResponse } from "next/server";
+import { SiweErrorCode } from "~~/utils/siwe";
+import siweConfig from "~~/utils/siwe.config";
+import { getJwks } from "~~/utils/siwe.jwt";
+import { siweErrorResponse, tokenModeDisabledResponse } from "~~/utils/siwe.server";
+
+export async function GET() {
+  if (!siweConfig.jwt.enabled) {
+    return tokenModeDisabledResponse();
+  }
+
+  try {
+    return NextResponse.json(await getJwks(), {
+      headers: { "Cache-Control": "public, max-age=300" },
+    });
+  } catch (error) {
+    console.error("Error loading JWKS:", error);
+    return siweErrorResponse(SiweErrorCode.INTERNAL_ERROR, "Failed to load signing keys", 500);
+  }
+}
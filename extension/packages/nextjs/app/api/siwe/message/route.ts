@@ -0,0 +1,144 @@
+/**
+ * SIWE Message API Route
+ *
+ * POST /api/siwe/message
+ * - Issues a nonce (like GET /api/siwe/nonce) and binds it to this browser's session
+ * - Prepares the complete EIP-4361 message on the server: domain and uri from the
+ *   request (see allowedDomains / trustProxy), statement and expiration from
+ *   siwe.config.ts, the requested resources and ReCap capabilities
+ * - Records the exact message text with the nonce, so /api/siwe/verify only
+ *   accepts that message, byte-for-byte
+ *
+ * Used by useSiwe when `serverIssuedMessages` is enabled in siwe.config.ts,
+ * but available either way. Rate limited like the nonce route (`rateLimit.nonce`).
+ *
+ * `intent: "link"` / `"chain"` keeps the current sign in, for linking another wallet or
+ * switching chains (POST /api/siwe/verify with `mode: "link"` / `"chain"`).
+ *
+ * Request body: { address: string, chainId: number, resources?: string[], capabilities?: ReCapAttenuations,
+ *                 intent?: "sign-in" | "link" | "chain" }
+ * Response: { ok: true, message, nonce } or { ok: false, error, errorCode }
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { isAddress } from "viem";
+import { generateSiweNonce } from "viem/siwe";
+import { SiweErrorCode, getResourceLimitError, isResourceAllowed, prepareSiweMessage } from "~~/utils/siwe";
+import { emitAuditEvent } from "~~/utils/siwe.audit";
+import { isChainAllowed } from "~~/utils/siwe.chains";
+import siweConfig from "~~/utils/siwe.config";
+import { issueNonce } from "~~/utils/siwe.nonceStore";
+import { checkRateLimit } from "~~/utils/siwe.rateLimit";
+import {
+  getClientIp,
+  getRequestDomain,
+  getSiweSession,
+  siweErrorResponse,
+  tooManyRequestsResponse,
+} from "~~/utils/siwe.server";
+
+export async function POST(request: NextRequest) {
+  try {
+    // Throttle like nonce generation (this route issues a nonce too)
+    const rateLimit = await checkRateLimit("nonce", getClientIp(request));
+    if (!rateLimit.allowed) {
+      return tooManyRequestsResponse(rateLimit.retryAfterSeconds);
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return siweErrorResponse(SiweErrorCode.INVALID_REQUEST, "Invalid request body. Expected a JSON object.", 400);
+    }
+    const { address, chainId, resources = [], capabilities, intent } = body;
+
+    if (typeof address !== "string" || !isAddress(address)) {
+      return siweErrorResponse(SiweErrorCode.INVALID_REQUEST, "Missing or invalid 'address' field.", 400);
+    }
+
+    if (!Number.isInteger(chainId)) {
+      return siweErrorResponse(SiweErrorCode.INVALID_REQUEST, "Missing or invalid 'chainId' field.", 400);
+    }
+
+    if (!isChainAllowed(chainId)) {
+      return siweErrorResponse(
+        SiweErrorCode.CHAIN_NOT_SUPPORTED,
+        `Chain not supported: ${chainId}. Please switch to a supported network.`,
+        400,
+      );
+    }
+
+    if (!Array.isArray(resources) || resources.some(resource => typeof resource !== "string")) {
+      return siweErrorResponse(
+        SiweErrorCode.INVALID_REQUEST,
+        "Invalid 'resources' field. Expected an array of strings.",
+        400,
+      );
+    }
+
+    // Fail early on resources that /api/siwe/verify would reject anyway
+    const resourceLimitError = getResourceLimitError(resources);
+    if (resourceLimitError) {
+      return siweErrorResponse(SiweErrorCode.RESOURCE_NOT_ALLOWED, resourceLimitError, 400);
+    }
+
+    const disallowedResources = [...resources, ...Object.keys(capabilities ?? {})].filter(
+      resource => !isResourceAllowed(resource),
+    );
+    if (disallowedResources.length > 0) {
+      return siweErrorResponse(
+        SiweErrorCode.RESOURCE_NOT_ALLOWED,
+        `Resource not allowed: ${disallowedResources.join(", ")}`,
+        400,
+      );
+    }
+
+    const requestDomain = getRequestDomain(request);
+    if (!requestDomain) {
+      return siweErrorResponse(
+        SiweErrorCode.DOMAIN_MISMATCH,
+        "Sign in is not allowed from this domain. Check `allowedDomains` in siwe.config.ts.",
+        400,
+      );
+    }
+
+    const nonce = generateSiweNonce();
+    const requestId = siweConfig.messagePolicy.requestId ? crypto.randomUUID() : undefined;
+
+    let message: string;
+    try {
+      message = prepareSiweMessage({
+        address,
+        chainId,
+        domain: requestDomain.domain,
+        uri: requestDomain.origin,
+        nonce,
+        requestId,
+        resources,
+        capabilities,
+      });
+    } catch (prepareError) {
+      // e.g. malformed ReCap capabilities
+      return siweErrorResponse(
+        SiweErrorCode.INVALID_REQUEST,
+        prepareError instanceof Error ? prepareError.message : "Could not prepare the SIWE message.",
+        400,
+      );
+    }
+
+    // Record the exact text, so only this message can be signed in with
+    await issueNonce(nonce, { requestId, message });
+
+    const session = await getSiweSession();
+    session.nonce = nonce;
+    if (intent !== "link" && intent !== "chain") {
+      session.isLoggedIn = false; // Reset login state when starting a new sign in
+    }
+    await session.save();
+
+    emitAuditEvent(request, { type: "nonce_issued", address, chainId });
+
+    return NextResponse.json({ ok: true, message, nonce });
+  } catch (error) {
+    console.error("Error preparing SIWE message:", error);
+    return siweErrorResponse(SiweErrorCode.INTERNAL_ERROR, "Failed to prepare SIWE message", 500);
+  }
+}
@@ -3,34 +3,62 @@
  *
  * GET /api/siwe/nonce
  * - Generates a random nonce using viem's generateSiweNonce
- * - Stores it in the session (to validate later)
- * - Returns the nonce to the client
+ * - Records it in the nonce store with a TTL (see utils/siwe.nonceStore.ts)
+ * - Stores it in the session (binds the nonce to this browser)
+ * - Returns the nonce to the client, plus a requestId the message must carry
+ *   when `messagePolicy.requestId` is enabled in siwe.config.ts
  *
- * The nonce prevents replay attacks - each sign in attempt needs a fresh nonce.
+ * GET /api/siwe/nonce?intent=link (or intent=chain) keeps the current sign in, for linking
+ * another wallet or switching chains (POST /api/siwe/verify with `mode: "link"` / `"chain"`).
+ *
+ * Requests are rate limited per client IP (`rateLimit.nonce` in siwe.config.ts).
+ *
+ * The nonce prevents replay attacks - each sign in attempt needs a fresh nonce,
+ * and the nonce store guarantees it can only be consumed once.
  */
-import { cookies } from "next/headers";
-import { NextResponse } from "next/server";
-import { getIronSession } from "iron-session";
+import { NextRequest, NextResponse } from "next/server";
 import { generateSiweNonce } from "viem/siwe";
-import { SiweSessionData, sessionOptions } from "~~/utils/siwe";
+import { SiweErrorCode } from "~~/utils/siwe";
+import { emitAuditEvent } from "~~/utils/siwe.audit";
+import siweConfig from "~~/utils/siwe.config";
+import { issueNonce } from "~~/utils/siwe.nonceStore";
+import { checkRateLimit } from "~~/utils/siwe.rateLimit";
+import { getClientIp, getSiweSession, siweErrorResponse, tooManyRequestsResponse } from "~~/utils/siwe.server";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    // Throttle nonce generation per client IP
+    const rateLimit = await checkRateLimit("nonce", getClientIp(request));
+    if (!rateLimit.allowed) {
+      return tooManyRequestsResponse(rateLimit.retryAfterSeconds);
+    }
+
     // Get the session from cookies
-    const session = await getIronSession<SiweSessionData>(await cookies(), sessionOptions);
+    const session = await getSiweSession();
 
     // Generate a new nonce using viem's built-in utility
     const nonce = generateSiweNonce();
 
+    // Optionally bind a requestId to the nonce (checked by /api/siwe/verify)
+    const requestId = siweConfig.messagePolicy.requestId ? crypto.randomUUID() : undefined;
+
+    // Track the nonce server-side so it expires and can only be used once
+    await issueNonce(nonce, { requestId });
+
     // Store nonce in session (we'll verify it later)
     session.nonce = nonce;
-    session.isLoggedIn = false; // Reset login state when getting new nonce
+    const intent = request.nextUrl.searchParams.get("intent");
+    if (intent !== "link" && intent !== "chain") {
+      session.isLoggedIn = false; // Reset login state when getting new nonce
+    }
     await session.save();
 
+    emitAuditEvent(request, { type: "nonce_issued" });
+
     // Return the nonce to the client
-    return NextResponse.json({ nonce });
+    return NextResponse.json({ nonce, requestId });
   } catch (error) {
     console.error("Error generating nonce:", error);
-    return NextResponse.json({ error: "Failed to generate nonce" }, { status: 500 });
+    return siweErrorResponse(SiweErrorCode.INTERNAL_ERROR, "Failed to generate nonce", 500);
   }
 }
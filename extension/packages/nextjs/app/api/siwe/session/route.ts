@@ -4,31 +4,80 @@
  * GET /api/siwe/session
  * - Returns the current session state
  * - Used to check if user is logged in on page load
+ * - Renews the cookie of active sessions (sliding expiration)
+ * - Clears the cookie if the session expired (idle / absolute limit) or was revoked
+ *
+ * PATCH /api/siwe/session
+ * - Switches the active address to another linked wallet (requires `accountStore`)
+ *   and/or the active chain, without signing again
+ * - Chain changes without a signature are only allowed with `chainSwitchPolicy: "update-silently"`
+ *   (siwe.config.ts), and never for smart contract accounts on chains they have not signed in on:
+ *   otherwise 403 SIGNATURE_REQUIRED, then POST /api/siwe/verify with `mode: "chain"`
+ * - The new address must still pass the access lists (siwe.accessList.ts), 403 ADDRESS_NOT_PERMITTED
+ * - Resolves token-gated roles (and the ENS profile) for the new address / chain
+ * - Request body: { address?: string, chainId?: number, merkleProof?: string[] }
  *
  * DELETE /api/siwe/session
  * - Destroys the session (logout)
- * - Clears all session data
+ * - Clears all session data and revokes the server-side session record
+ * - Runs the onSignOut hook (siwe.hooks.ts) before the session is cleared
+ *   (store and hook errors are logged; the session is cleared regardless)
  */
-import { cookies } from "next/headers";
-import { NextResponse } from "next/server";
-import { getIronSession } from "iron-session";
-import { SiweSessionData, defaultSession, sessionOptions } from "~~/utils/siwe";
+import { NextRequest, NextResponse } from "next/server";
+import { Address, getAddress, isAddress, isAddressEqual, isHex } from "viem";
+import { SiweErrorCode, defaultSession, isAuthenticated, shouldRenewSession } from "~~/utils/siwe";
+import { checkAddressAccess } from "~~/utils/siwe.accessList";
+import { getAccountStore, isSessionAccountLinked } from "~~/utils/siwe.accountStore";
+import { emitAuditEvent } from "~~/utils/siwe.audit";
+import { getPublicClientForChain } from "~~/utils/siwe.chains";
+import siweConfig from "~~/utils/siwe.config";
+import { resolveEnsProfile } from "~~/utils/siwe.ens";
+import { siweHooks } from "~~/utils/siwe.hooks";
+import { resolveRoles } from "~~/utils/siwe.roles";
+import {
+  accountLinkingDisabledResponse,
+  getSiweSession,
+  renewSiweSession,
+  siweErrorResponse,
+  toSiweSessionResponse,
+  withSiweAuth,
+} from "~~/utils/siwe.server";
+import { getSessionStore, isSessionActive } from "~~/utils/siwe.sessionStore";
+import { hasBytecode } from "~~/utils/siwe.signature";
 
 /**
  * GET - Check current session
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const session = await getIronSession<SiweSessionData>(await cookies(), sessionOptions);
+    const session = await getSiweSession();
+
+    // Expired (idle / absolute limit), revoked or unlinked sessions lose their cookie
+    if (
+      session.isLoggedIn &&
+      (!isAuthenticated(session) || !(await isSessionActive(session)) || !(await isSessionAccountLinked(session)))
+    ) {
+      // Revocations are audited when they happen; only report expiry here
+      if (!isAuthenticated(session)) {
+        emitAuditEvent(request, {
+          type: "session_expired",
+          address: session.address,
+          chainId: session.chainId,
+          sessionId: session.sessionId,
+        });
+      }
+      session.destroy();
+      return NextResponse.json(defaultSession);
+    }
 
     // Return session data (or default if not logged in)
-    if (session.isLoggedIn && session.address) {
-      return NextResponse.json({
-        isLoggedIn: true,
-        address: session.address,
-        chainId: session.chainId,
-        signedInAt: session.signedInAt,
-      });
+    if (isAuthenticated(session)) {
+      // Sliding expiration: re-issue the cookie for active users
+      if (shouldRenewSession(session)) {
+        await renewSiweSession(session);
+      }
+
+      return NextResponse.json(toSiweSessionResponse(session));
     }
 
     return NextResponse.json(defaultSession);
@@ -38,19 +87,184 @@ export async function GET() {
   }
 }
 
+/**
+ * PATCH - Switch the active address and/or chain
+ */
+export const PATCH = withSiweAuth(async (request, session) => {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return siweErrorResponse(SiweErrorCode.INVALID_REQUEST, "Invalid request body. Expected a JSON object.", 400);
+    }
+    const { address, chainId, merkleProof } = body;
+
+    if (address === undefined && chainId === undefined) {
+      return siweErrorResponse(SiweErrorCode.INVALID_REQUEST, "Expected an 'address' and/or 'chainId' field.", 400);
+    }
+
+    if (address !== undefined && (typeof address !== "string" || !isAddress(address))) {
+      return siweErrorResponse(SiweErrorCode.INVALID_REQUEST, "Invalid 'address' field.", 400);
+    }
+
+    if (chainId !== undefined && !Number.isInteger(chainId)) {
+      return siweErrorResponse(SiweErrorCode.INVALID_REQUEST, "Invalid 'chainId' field.", 400);
+    }
+
+    if (
+      merkleProof !== undefined &&
+      (!Array.isArray(merkleProof) || merkleProof.some(node => typeof node !== "string" || !isHex(node)))
+    ) {
+      return siweErrorResponse(
+        SiweErrorCode.INVALID_REQUEST,
+        "Invalid 'merkleProof' field. Expected an array of hex strings.",
+        400,
+      );
+    }
+
+    const nextAddress = address !== undefined ? getAddress(address) : session.address;
+    const nextChainId: number = chainId ?? session.chainId;
+
+    // (address, chainId) pairs the user has signed a message for
+    const provenAccounts = [{ address: session.address, chainId: session.chainId }];
+
+    if (!isAddressEqual(nextAddress, session.address)) {
+      const accountStore = getAccountStore();
+      if (!accountStore) return accountLinkingDisabledResponse();
+
+      // Check the store rather than the cookie, so unlinked wallets cannot be switched to,
+      // nor switched from: a session of an unlinked wallet must not reach the user's other wallets
+      const linkedAccounts = session.userId ? await accountStore.listAccounts(session.userId) : [];
+      const isLinked = (linkedAddress: Address) =>
+        linkedAccounts.some(account => isAddressEqual(account.address, linkedAddress));
+      if (!isLinked(session.address)) {
+        return siweErrorResponse(
+          SiweErrorCode.ACCOUNT_NOT_LINKED,
+          "The active wallet is no longer linked to your account. Please sign in again.",
+          403,
+        );
+      }
+      if (!isLinked(nextAddress)) {
+        return siweErrorResponse(
+          SiweErrorCode.ACCOUNT_NOT_LINKED,
+          "This wallet is not linked to your account. Link it first.",
+          403,
+        );
+      }
+
+      // The wallet may have been denied (or dropped from the allow-list) since it was linked
+      const access = await checkAddressAccess(nextAddress, { merkleProof });
+      if (!access.permitted) {
+        return siweErrorResponse(SiweErrorCode.ADDRESS_NOT_PERMITTED, access.error, 403);
+      }
+
+      provenAccounts.push(...linkedAccounts);
+      session.linkedAddresses = linkedAccounts.map(account => account.address);
+    }
+
+    const publicClient = getPublicClientForChain(nextChainId);
+    if (!publicClient) {
+      return siweErrorResponse(
+        SiweErrorCode.CHAIN_NOT_SUPPORTED,
+        `Chain not supported: ${nextChainId}. Please switch to a supported network.`,
+        400,
+      );
+    }
+
+    // An EOA's key controls its address on every chain, but a smart contract account may not
+    // exist (or have other owners) on another chain: it must sign in on the new chain
+    const isProven = provenAccounts.some(
+      account => account.chainId === nextChainId && isAddressEqual(account.address, nextAddress),
+    );
+    // Unless the app opted into silent chain switches, a new chain needs a signature
+    if (!isProven && nextChainId !== session.chainId && siweConfig.chainSwitchPolicy !== "update-silently") {
+      return siweErrorResponse(SiweErrorCode.SIGNATURE_REQUIRED, "Sign a message to use this chain.", 403);
+    }
+    if (!isProven && (await hasBytecode(publicClient, nextAddress))) {
+      return siweErrorResponse(
+        SiweErrorCode.SIGNATURE_REQUIRED,
+        "Smart contract accounts must sign again to use this chain.",
+        403,
+      );
+    }
+
+    // Token-gated roles depend on the address and chain, the ENS profile on the address
+    const [roles, ensProfile] = await Promise.all([
+      resolveRoles(publicClient, nextAddress),
+      isAddressEqual(nextAddress, session.address)
+        ? { ensName: session.ensName, ensAvatar: session.ensAvatar }
+        : resolveEnsProfile(nextAddress),
+    ]);
+
+    const previous = { address: session.address, chainId: session.chainId };
+    session.address = nextAddress;
+    session.chainId = nextChainId;
+    session.roles = roles;
+    session.ensName = ensProfile.ensName;
+    session.ensAvatar = ensProfile.ensAvatar;
+    await session.save();
+
+    if (!isAddressEqual(previous.address, nextAddress)) {
+      emitAuditEvent(request, {
+        type: "account_switched",
+        userId: session.userId!,
+        previousAddress: previous.address,
+        address: nextAddress,
+        chainId: nextChainId,
+        sessionId: session.sessionId,
+      });
+    }
+    if (previous.chainId !== nextChainId) {
+      emitAuditEvent(request, {
+        type: "chain_switched",
+        previousChainId: previous.chainId,
+        address: nextAddress,
+        chainId: nextChainId,
+        sessionId: session.sessionId,
+      });
+    }
+
+    return NextResponse.json({ ok: true, ...toSiweSessionResponse(session) });
+  } catch (error) {
+    console.error("Error updating session:", error);
+    return siweErrorResponse(SiweErrorCode.INTERNAL_ERROR, "Failed to update session", 500);
+  }
+});
+
 /**
  * DELETE - Logout / destroy session
  */
-export async function DELETE() {
+export async function DELETE(request: NextRequest) {
   try {
-    const session = await getIronSession<SiweSessionData>(await cookies(), sessionOptions);
+    const session = await getSiweSession();
 
-    // Destroy the session
+    // Sign out must always succeed: a failing store or app hook is logged, not returned,
+    // and the cookie is destroyed regardless
+    if (session.sessionId) {
+      try {
+        await getSessionStore()?.revoke(session.sessionId);
+      } catch (revokeError) {
+        console.error("Failed to revoke the session record:", revokeError);
+      }
+    }
+    if (session.isLoggedIn) {
+      try {
+        await siweHooks.onSignOut?.({ request, session });
+      } catch (hookError) {
+        console.error("onSignOut hook failed:", hookError);
+      }
+      emitAuditEvent(request, {
+        type: "session_destroyed",
+        reason: "sign_out",
+        address: session.address,
+        chainId: session.chainId,
+        sessionId: session.sessionId,
+      });
+    }
     session.destroy();
 
     return NextResponse.json({ ok: true });
   } catch (error) {
     console.error("Error destroying session:", error);
-    return NextResponse.json({ ok: false, error: "Failed to logout" }, { status: 500 });
+    return siweErrorResponse(SiweErrorCode.INTERNAL_ERROR, "Failed to logout", 500);
   }
 }
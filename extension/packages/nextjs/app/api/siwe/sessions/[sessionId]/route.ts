@@ -0,0 +1,54 @@
+/**
+ * SIWE Single Session API Route
+ *
+ * Requires a session store (`sessionStore` in siwe.config.ts).
+ *
+ * DELETE /api/siwe/sessions/:sessionId
+ * - Revokes one session of the signed in wallet
+ * - Revoking the current session also destroys its cookie
+ */
+import { NextResponse } from "next/server";
+import { isAddressEqual } from "viem";
+import { SiweErrorCode, getSessionAddresses } from "~~/utils/siwe";
+import { emitAuditEvent } from "~~/utils/siwe.audit";
+import { sessionStoreDisabledResponse, siweErrorResponse, withSiweAuth } from "~~/utils/siwe.server";
+import { getSessionStore } from "~~/utils/siwe.sessionStore";
+
+type RouteContext = { params: Promise<{ sessionId: string }> };
+
+/**
+ * DELETE - Revoke a single session
+ */
+export const DELETE = withSiweAuth<RouteContext>(async (request, session, { params }) => {
+  const store = getSessionStore();
+  if (!store) return sessionStoreDisabledResponse();
+
+  try {
+    const { sessionId } = await params;
+    const record = await store.get(sessionId);
+
+    // Only allow revoking sessions that belong to the signed in wallet (or its linked wallets)
+    if (!record || !getSessionAddresses(session).some(address => isAddressEqual(address, record.address))) {
+      return siweErrorResponse(SiweErrorCode.SESSION_NOT_FOUND, "Session not found", 404);
+    }
+
+    await store.revoke(sessionId);
+    emitAuditEvent(request, {
+      type: "session_destroyed",
+      reason: "revoked",
+      address: record.address,
+      chainId: record.chainId,
+      sessionId,
+    });
+
+    const isCurrent = sessionId === session.sessionId;
+    if (isCurrent) {
+      session.destroy();
+    }
+
+    return NextResponse.json({ ok: true, isCurrent });
+  } catch (error) {
+    console.error("Error revoking session:", error);
+    return siweErrorResponse(SiweErrorCode.INTERNAL_ERROR, "Failed to revoke session", 500);
+  }
+});
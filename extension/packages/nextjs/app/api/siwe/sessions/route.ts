@@ -0,0 +1,75 @@
+/**
+ * SIWE Sessions API Route
+ *
+ * Requires a session store (`sessionStore` in siwe.config.ts).
+ *
+ * GET /api/siwe/sessions
+ * - Lists all active sessions of the signed in wallet (and its linked wallets)
+ * - The session making the request is flagged with isCurrent
+ *
+ * DELETE /api/siwe/sessions
+ * - Revokes every session of the signed in wallet and its linked wallets ("sign out everywhere")
+ * - Also revokes their refresh tokens (when `jwt.enabled`)
+ * - Also destroys the current session cookie
+ */
+import { NextResponse } from "next/server";
+import { SiweErrorCode, getSessionAddresses } from "~~/utils/siwe";
+import { emitAuditEvent } from "~~/utils/siwe.audit";
+import siweConfig from "~~/utils/siwe.config";
+import { getRefreshTokenStore } from "~~/utils/siwe.jwt";
+import { sessionStoreDisabledResponse, siweErrorResponse, withSiweAuth } from "~~/utils/siwe.server";
+import { getSessionStore } from "~~/utils/siwe.sessionStore";
+
+/**
+ * GET - List active sessions
+ */
+export const GET = withSiweAuth(async (_request, session) => {
+  const store = getSessionStore();
+  if (!store) return sessionStoreDisabledResponse();
+
+  try {
+    const records = (await Promise.all(getSessionAddresses(session).map(address => store.listByAddress(address))))
+      .flat()
+      .sort((a, b) => b.createdAt - a.createdAt);
+
+    return NextResponse.json({
+      ok: true,
+      sessions: records.map(record => ({ ...record, isCurrent: record.id === session.sessionId })),
+    });
+  } catch (error) {
+    console.error("Error listing sessions:", error);
+    return siweErrorResponse(SiweErrorCode.INTERNAL_ERROR, "Failed to list sessions", 500);
+  }
+});
+
+/**
+ * DELETE - Sign out everywhere
+ */
+export const DELETE = withSiweAuth(async (request, session) => {
+  const store = getSessionStore();
+  if (!store) return sessionStoreDisabledResponse();
+
+  try {
+    const addresses = getSessionAddresses(session);
+    const revoked = (await Promise.all(addresses.map(address => store.revokeAllForAddress(address)))).reduce(
+      (total, count) => total + count,
+      0,
+    );
+    if (siweConfig.jwt.enabled) {
+      await Promise.all(addresses.map(address => getRefreshTokenStore().revokeAllForAddress(address)));
+    }
+    emitAuditEvent(request, {
+      type: "session_destroyed",
+      reason: "revoked_all",
+      address: session.address,
+      chainId: session.chainId,
+      sessionId: session.sessionId,
+    });
+    session.destroy();
+
+    return NextResponse.json({ ok: true, revoked });
+  } catch (error) {
+    console.error("Error revoking sessions:", error);
+    return siweErrorResponse(SiweErrorCode.INTERNAL_ERROR, "Failed to revoke sessions", 500);
+  }
+});
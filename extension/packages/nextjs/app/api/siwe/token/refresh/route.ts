@@ -0,0 +1,54 @@
+/**
+ * SIWE Token Refresh API Route
+ *
+ * POST /api/siwe/token/refresh
+ * - Exchanges a refresh token for a new access token + refresh token
+ * - Refresh tokens are single-use: the old one stops working immediately
+ *
+ * Requires `jwt.enabled` in siwe.config.ts.
+ *
+ * Request body: { refreshToken: string }
+ * Response: { ok: true, accessToken, refreshToken, tokenType, expiresIn } or { ok: false, error, errorCode }
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { SiweErrorCode } from "~~/utils/siwe";
+import siweConfig from "~~/utils/siwe.config";
+import { refreshTokens } from "~~/utils/siwe.jwt";
+import { siweErrorResponse, tokenModeDisabledResponse } from "~~/utils/siwe.server";
+
+export async function POST(request: NextRequest) {
+  if (!siweConfig.jwt.enabled) {
+    return tokenModeDisabledResponse();
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return siweErrorResponse(SiweErrorCode.INVALID_REQUEST, "Invalid request body. Expected a JSON object.", 400);
+    }
+    const { refreshToken } = body;
+
+    if (!refreshToken || typeof refreshToken !== "string") {
+      return siweErrorResponse(
+        SiweErrorCode.INVALID_REQUEST,
+        "Missing or invalid 'refreshToken' field. Expected a string.",
+        400,
+      );
+    }
+
+    const tokens = await refreshTokens(refreshToken);
+
+    if (!tokens) {
+      return siweErrorResponse(
+        SiweErrorCode.INVALID_REFRESH_TOKEN,
+        "Refresh token is invalid, expired or was already used. Please sign in again.",
+        401,
+      );
+    }
+
+    return NextResponse.json({ ok: true, ...tokens });
+  } catch (error) {
+    console.error("Error refreshing tokens:", error);
+    return siweErrorResponse(SiweErrorCode.INTERNAL_ERROR, "Failed to refresh tokens", 500);
+  }
+}
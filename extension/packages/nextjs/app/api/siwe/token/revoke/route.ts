@@ -0,0 +1,48 @@
+/**
+ * SIWE Token Revoke API Route
+ *
+ * POST /api/siwe/token/revoke
+ * - Revokes a refresh token, e.g. when a bearer client signs out
+ * - Access tokens issued with it stay valid until they expire (`jwt.accessTokenMinutes`)
+ * - Unknown, expired or already used tokens are not an error (RFC 7009), so the
+ *   response does not reveal whether a token was valid
+ *
+ * Requires `jwt.enabled` in siwe.config.ts.
+ *
+ * Request body: { refreshToken: string }
+ * Response: { ok: true } or { ok: false, error, errorCode }
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { SiweErrorCode } from "~~/utils/siwe";
+import siweConfig from "~~/utils/siwe.config";
+import { revokeRefreshToken } from "~~/utils/siwe.jwt";
+import { siweErrorResponse, tokenModeDisabledResponse } from "~~/utils/siwe.server";
+
+export async function POST(request: NextRequest) {
+  if (!siweConfig.jwt.enabled) {
+    return tokenModeDisabledResponse();
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return siweErrorResponse(SiweErrorCode.INVALID_REQUEST, "Invalid request body. Expected a JSON object.", 400);
+    }
+    const { refreshToken } = body;
+
+    if (!refreshToken || typeof refreshToken !== "string") {
+      return siweErrorResponse(
+        SiweErrorCode.INVALID_REQUEST,
+        "Missing or invalid 'refreshToken' field. Expected a string.",
+        400,
+      );
+    }
+
+    await revokeRefreshToken(refreshToken);
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Error revoking refresh token:", error);
+    return siweErrorResponse(SiweErrorCode.INTERNAL_ERROR, "Failed to revoke the refresh token", 500);
+  }
+}
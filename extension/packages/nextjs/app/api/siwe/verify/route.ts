@@ -3,139 +3,284 @@
  *
  * POST /api/siwe/verify
  * - Receives the SIWE message and signature from the client
- * - Verifies the message and signature using viem's verifySiweMessage
+ * - Verifies the message and signature using verifySiweSignature
+ *   (viem's verifySiweMessage, with EOA signatures checked locally to save RPC calls)
  * - Creates an authenticated session on success
  *
- * Security checks performed by verifySiweMessage:
+ * Security checks performed by verifySiweSignature:
  * 1. Domain matches our server's domain (prevents cross-site attacks)
+ *    (the request's host, or X-Forwarded-Host with `trustProxy`, must be in `allowedDomains`)
  * 2. Nonce matches what we issued (prevents replay attacks)
  * 3. Message hasn't expired (if expirationTime is set)
  * 4. Current time is after notBefore (if set)
  * 5. Signature is cryptographically valid
  * 6. ERC-6492 support for Smart Contract Accounts
  *
- * Request body: { message: string, signature: string }
- * Response: { ok: true, address: string, chainId: number } or { ok: false, error: string }
+ * The message's chainId must be allowed by `chains` / `allowedChainIds` in siwe.config.ts.
+ *
+ * Requested resources must be on the `allowedResources` list in siwe.config.ts
+ * and are stored in the session, together with any ReCap (EIP-5573) capabilities
+ * and the token-gated roles and ENS name resolved for the address.
+ *
+ * Fields viem does not validate (uri, issuedAt, expirationTime, statement, requestId)
+ * are checked against `messagePolicy` in siwe.config.ts (see utils/siwe.policy.ts).
+ *
+ * Messages prepared by POST /api/siwe/message must be signed byte-for-byte as issued
+ * (with `serverIssuedMessages` enabled, every message must come from that route).
+ *
+ * Requests are rate limited per client IP and per claimed address (`rateLimit` in
+ * siwe.config.ts); exceeding a limit returns 429 with a Retry-After header.
+ *
+ * The nonce is then consumed from the nonce store, so it cannot be replayed
+ * even with an old copy of the session cookie.
+ *
+ * Only addresses permitted by `siweAccessLists` (utils/siwe.accessList.ts) can sign in
+ * (403 ADDRESS_NOT_PERMITTED); Merkle allow-lists need the client's `merkleProof`.
+ *
+ * Request body: { message: string, signature: string, mode?: "session" | "token" | "link" | "chain", merkleProof?: string[] }
+ * Response: { ok: true, address, chainId, signedInAt, lastSeenAt, resources, capabilities, roles, ensName?, ensAvatar?, data?,
+ *            userId?, linkedAddresses }
+ *        or { ok: false, error: string, errorCode: SiweErrorCode }
+ *
+ * App hooks in siwe.hooks.ts run before verification (onBeforeVerify) and after it
+ * (onSignIn, which may reject the sign in or attach app `data` to the session).
+ *
+ * Every attempt is recorded in the audit log (verify_success / verify_failure with
+ * its errorCode, see utils/siwe.audit.ts).
+ *
+ * Token mode (`mode: "token"`, requires `jwt.enabled` in siwe.config.ts) is for clients
+ * without cookies: no session is created and the response contains
+ * { accessToken, refreshToken, tokenType: "Bearer", expiresIn } instead.
+ *
+ * Link mode (`mode: "link"`, requires `accountStore` in siwe.config.ts) links the signing
+ * wallet to the signed in user instead of signing in: the active address is unchanged and
+ * the response is { ok: true, address, userId, linkedAddresses }.
+ *
+ * Chain mode (`mode: "chain"`) moves the signed in session to the message's chain, e.g. after a
+ * network switch (see `chainSwitchPolicy`). The message must be signed by the active address;
+ * the response is { ok: true, address, chainId, roles }.
  */
-import { cookies } from "next/headers";
 import { NextRequest, NextResponse } from "next/server";
-import { getIronSession } from "iron-session";
-import { Chain, Hex, createPublicClient, http } from "viem";
-import { arbitrum, base, gnosis, hardhat, mainnet, optimism, polygon, scroll, sepolia, zkSync } from "viem/chains";
-import { parseSiweMessage, verifySiweMessage } from "viem/siwe";
-import { SiweSessionData, sessionOptions } from "~~/utils/siwe";
+import { Address, Hex, isAddressEqual, isHex } from "viem";
+import { parseSiweMessage } from "viem/siwe";
+import {
+  SiweErrorCode,
+  UNAUTHORIZED_ERROR,
+  getResourceLimitError,
+  isAuthenticated,
+  isResourceAllowed,
+} from "~~/utils/siwe";
+import { checkAddressAccess } from "~~/utils/siwe.accessList";
+import { getAccountStore, isSessionAccountLinked, resolveUserAccounts } from "~~/utils/siwe.accountStore";
+import { emitAuditEvent } from "~~/utils/siwe.audit";
+import { getPublicClientForChain } from "~~/utils/siwe.chains";
+import siweConfig from "~~/utils/siwe.config";
+import { resolveEnsProfile } from "~~/utils/siwe.ens";
+import { siweHooks } from "~~/utils/siwe.hooks";
+import { issueTokens } from "~~/utils/siwe.jwt";
+import { getNonceStore } from "~~/utils/siwe.nonceStore";
+import { checkMessagePolicy, checkRequestId } from "~~/utils/siwe.policy";
+import { checkRateLimit } from "~~/utils/siwe.rateLimit";
+import { ReCapAttenuations, ReCapCapability, decodeRecap, hasRecapStatement, isRecapUri } from "~~/utils/siwe.recap";
+import { resolveRoles } from "~~/utils/siwe.roles";
+import {
+  getClientIp,
+  getRequestDomain,
+  getSiweSession,
+  siweErrorResponse,
+  tokenModeDisabledResponse,
+  tooManyRequestsResponse,
+} from "~~/utils/siwe.server";
+import { isSessionActive, registerSession } from "~~/utils/siwe.sessionStore";
+import { verifySiweSignature } from "~~/utils/siwe.signature";
 
 /**
- * Map of chainId to viem Chain configuration
- * Add more chains as needed for your application
+ * An error message together with its machine-readable code
  */
-const SUPPORTED_CHAINS: Record<number, Chain> = {
-  // Mainnets
-  [mainnet.id]: mainnet,
-  [polygon.id]: polygon,
-  [optimism.id]: optimism,
-  [arbitrum.id]: arbitrum,
-  [base.id]: base,
-  [gnosis.id]: gnosis,
-  [scroll.id]: scroll,
-  [zkSync.id]: zkSync,
-  // Testnets
-  [sepolia.id]: sepolia,
-  // Local development (hardhat.id = 31337, also used by Anvil)
-  [hardhat.id]: hardhat,
-};
+type VerificationError = { errorCode: SiweErrorCode; error: string };
 
 /**
- * Get a public client for the specified chainId
- * Falls back to mainnet if chain is not supported (for ENS resolution)
+ * Analyze why verification failed and return a helpful error
  */
-function getPublicClientForChain(chainId: number | undefined) {
-  const chain = chainId ? SUPPORTED_CHAINS[chainId] : mainnet;
-
-  return createPublicClient({
-    chain: chain || mainnet,
-    transport: http(),
-  });
-}
-
-/**
- * Analyze why verification failed and return a helpful error message
- */
-function getVerificationErrorMessage(
+function getVerificationError(
   parsedMessage: ReturnType<typeof parseSiweMessage>,
   expectedDomain: string,
   expectedNonce: string,
-): string {
+): VerificationError {
   const now = new Date();
 
   // Check domain mismatch
   if (parsedMessage.domain !== expectedDomain) {
-    return `Domain mismatch. Expected: ${expectedDomain}, Got: ${parsedMessage.domain}`;
+    return {
+      errorCode: SiweErrorCode.DOMAIN_MISMATCH,
+      error: `Domain mismatch. Expected: ${expectedDomain}, Got: ${parsedMessage.domain}`,
+    };
   }
 
   // Check nonce mismatch
   if (parsedMessage.nonce !== expectedNonce) {
-    return "Nonce mismatch. Please request a new nonce and try again.";
+    return {
+      errorCode: SiweErrorCode.NONCE_MISMATCH,
+      error: "Nonce mismatch. Please request a new nonce and try again.",
+    };
   }
 
   // Check expiration
   if (parsedMessage.expirationTime && new Date(parsedMessage.expirationTime) < now) {
-    return "Message has expired. Please sign a new message.";
+    return { errorCode: SiweErrorCode.EXPIRED, error: "Message has expired. Please sign a new message." };
   }
 
   // Check notBefore
   if (parsedMessage.notBefore && new Date(parsedMessage.notBefore) > now) {
-    return "Message is not yet valid. Please wait and try again.";
+    return { errorCode: SiweErrorCode.NOT_YET_VALID, error: "Message is not yet valid. Please wait and try again." };
   }
 
   // Check required fields
   if (!parsedMessage.address) {
-    return "Message is missing required field: address";
+    return { errorCode: SiweErrorCode.INVALID_MESSAGE, error: "Message is missing required field: address" };
   }
 
   if (!parsedMessage.chainId) {
-    return "Message is missing required field: chainId";
+    return { errorCode: SiweErrorCode.INVALID_MESSAGE, error: "Message is missing required field: chainId" };
   }
 
   // Default: likely a signature issue
-  return "Invalid signature. The message was not signed by the claimed address.";
+  return {
+    errorCode: SiweErrorCode.INVALID_SIGNATURE,
+    error: "Invalid signature. The message was not signed by the claimed address.",
+  };
+}
+
+/**
+ * Extract the resources and ReCap capabilities requested by a message
+ * - A ReCap (urn:recap:) must be the last resource and its statement suffix must match (EIP-5573)
+ * - Every resource and every ReCap target must be on the `allowedResources` list
+ * - At most MAX_RESOURCES resources of up to MAX_RESOURCE_LENGTH characters (they are stored in the session cookie)
+ */
+function getRequestedGrants(
+  parsedMessage: ReturnType<typeof parseSiweMessage>,
+): { resources: string[]; capabilities?: ReCapAttenuations } | VerificationError {
+  const allResources = parsedMessage.resources ?? [];
+  const resources = allResources.filter(resource => !isRecapUri(resource));
+  const recapUris = allResources.filter(isRecapUri);
+  let capabilities: ReCapAttenuations | undefined;
+
+  const resourceLimitError = getResourceLimitError(resources);
+  if (resourceLimitError) {
+    return { errorCode: SiweErrorCode.RESOURCE_NOT_ALLOWED, error: resourceLimitError };
+  }
+
+  if (recapUris.length > 0) {
+    if (recapUris.length > 1 || !isRecapUri(allResources[allResources.length - 1])) {
+      return {
+        errorCode: SiweErrorCode.INVALID_RECAP,
+        error: "Invalid ReCap. Only one ReCap is allowed and it must be the last resource.",
+      };
+    }
+
+    let recap: ReCapCapability;
+    try {
+      recap = decodeRecap(recapUris[0]);
+    } catch (recapError) {
+      return {
+        errorCode: SiweErrorCode.INVALID_RECAP,
+        error: recapError instanceof Error ? recapError.message : "Invalid ReCap.",
+      };
+    }
+
+    if (!hasRecapStatement(parsedMessage.statement, recap)) {
+      return {
+        errorCode: SiweErrorCode.INVALID_RECAP,
+        error: "Statement does not match the ReCap capabilities (EIP-5573).",
+      };
+    }
+
+    capabilities = recap.att;
+  }
+
+  const disallowedResources = [...resources, ...Object.keys(capabilities ?? {})].filter(
+    resource => !isResourceAllowed(resource),
+  );
+
+  if (disallowedResources.length > 0) {
+    return {
+      errorCode: SiweErrorCode.RESOURCE_NOT_ALLOWED,
+      error: `Resource not allowed: ${disallowedResources.join(", ")}`,
+    };
+  }
+
+  return { resources, capabilities };
 }
 
 export async function POST(request: NextRequest) {
+  // Address and chainId claimed by the message, once parsed (for the audit log)
+  const claimed: { address?: Address; chainId?: number } = {};
+
+  // Every failed sign in attempt is audited with its error code
+  const fail = (errorCode: SiweErrorCode, error: string, status: number) => {
+    emitAuditEvent(request, { type: "verify_failure", errorCode, ...claimed });
+    return siweErrorResponse(errorCode, error, status);
+  };
+
+  const rateLimited = (retryAfterSeconds: number) => {
+    emitAuditEvent(request, { type: "verify_failure", errorCode: SiweErrorCode.RATE_LIMITED, ...claimed });
+    return tooManyRequestsResponse(retryAfterSeconds);
+  };
+
   try {
     // =========================================================================
-    // Step 1: Parse and validate request body
+    // Step 1: Rate limit per client IP
+    // =========================================================================
+    const ipRateLimit = await checkRateLimit("verifyIp", getClientIp(request));
+
+    if (!ipRateLimit.allowed) {
+      return rateLimited(ipRateLimit.retryAfterSeconds);
+    }
+
+    // =========================================================================
+    // Step 2: Parse and validate request body
     // =========================================================================
-    const body = await request.json();
-    const { message, signature } = body;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return fail(SiweErrorCode.INVALID_REQUEST, "Invalid request body. Expected a JSON object.", 400);
+    }
+    const { message, signature, mode = "session", merkleProof } = body;
 
     if (!message || typeof message !== "string") {
-      return NextResponse.json(
-        { ok: false, error: "Missing or invalid 'message' field. Expected a string." },
-        { status: 400 },
-      );
+      return fail(SiweErrorCode.INVALID_REQUEST, "Missing or invalid 'message' field. Expected a string.", 400);
     }
 
     if (!signature || typeof signature !== "string") {
-      return NextResponse.json(
-        { ok: false, error: "Missing or invalid 'signature' field. Expected a hex string." },
-        { status: 400 },
+      return fail(SiweErrorCode.INVALID_REQUEST, "Missing or invalid 'signature' field. Expected a hex string.", 400);
+    }
+
+    if (mode !== "session" && mode !== "token" && mode !== "link" && mode !== "chain") {
+      return fail(
+        SiweErrorCode.INVALID_REQUEST,
+        'Invalid \'mode\' field. Expected "session", "token", "link" or "chain".',
+        400,
       );
     }
 
-    // =========================================================================
-    // Step 2: Retrieve stored nonce from session
-    // =========================================================================
-    const session = await getIronSession<SiweSessionData>(await cookies(), sessionOptions);
+    if (
+      merkleProof !== undefined &&
+      (!Array.isArray(merkleProof) || merkleProof.some(node => typeof node !== "string" || !isHex(node)))
+    ) {
+      return fail(SiweErrorCode.INVALID_REQUEST, "Invalid 'merkleProof' field. Expected an array of hex strings.", 400);
+    }
 
-    if (!session.nonce) {
-      return NextResponse.json(
-        { ok: false, error: "No nonce found in session. Please call GET /api/siwe/nonce first." },
-        { status: 400 },
-      );
+    if (mode === "token" && !siweConfig.jwt.enabled) {
+      emitAuditEvent(request, { type: "verify_failure", errorCode: SiweErrorCode.TOKEN_MODE_DISABLED });
+      return tokenModeDisabledResponse(400);
     }
 
-    const storedNonce = session.nonce;
+    if (mode === "link" && !getAccountStore()) {
+      return fail(
+        SiweErrorCode.ACCOUNT_LINKING_DISABLED,
+        "Account linking is not enabled. Set `accountStore` in siwe.config.ts.",
+        501,
+      );
+    }
 
     // =========================================================================
     // Step 3: Parse the SIWE message to extract fields
@@ -145,40 +290,124 @@ export async function POST(request: NextRequest) {
       parsedMessage = parseSiweMessage(message);
     } catch (parseError) {
       console.error("Failed to parse SIWE message:", parseError);
-      return NextResponse.json(
-        { ok: false, error: "Invalid SIWE message format. Could not parse EIP-4361 message." },
-        { status: 400 },
+      return fail(SiweErrorCode.INVALID_MESSAGE, "Invalid SIWE message format. Could not parse EIP-4361 message.", 400);
+    }
+
+    claimed.address = parsedMessage.address;
+    claimed.chainId = parsedMessage.chainId;
+
+    // =========================================================================
+    // Step 4: Determine the expected nonce
+    // =========================================================================
+    // Browsers: the nonce must match the one stored in this browser's session cookie.
+    // Token mode (clients without cookies): the nonce store alone guarantees that the
+    // nonce was issued by us and can only be used once (it is consumed below).
+    const session = await getSiweSession();
+
+    // Link and chain modes update the current sign in
+    if (
+      (mode === "link" || mode === "chain") &&
+      !(isAuthenticated(session) && (await isSessionActive(session)) && (await isSessionAccountLinked(session)))
+    ) {
+      return fail(SiweErrorCode.UNAUTHORIZED, UNAUTHORIZED_ERROR, 401);
+    }
+
+    const storedNonce = mode === "token" ? parsedMessage.nonce : session.nonce;
+
+    if (!storedNonce) {
+      return fail(
+        SiweErrorCode.NONCE_MISSING,
+        "No nonce found in session. Please call GET /api/siwe/nonce first.",
+        400,
       );
     }
 
     // =========================================================================
-    // Step 4: Get expected domain and create public client
+    // Step 5: Check requested resources and ReCap capabilities
+    // =========================================================================
+    const grants = getRequestedGrants(parsedMessage);
+
+    if ("error" in grants) {
+      return fail(grants.errorCode, grants.error, 400);
+    }
+
+    // =========================================================================
+    // Step 6: Get expected domain (see allowedDomains / trustProxy in siwe.config.ts)
     // =========================================================================
-    const expectedDomain = request.headers.get("host") || "";
+    const requestDomain = getRequestDomain(request);
 
-    if (!expectedDomain) {
-      console.error("Could not determine host from request headers");
-      return NextResponse.json(
-        { ok: false, error: "Could not determine server domain for verification." },
-        { status: 500 },
+    if (!requestDomain) {
+      console.error("Request host is missing or not in allowedDomains");
+      return fail(
+        SiweErrorCode.DOMAIN_MISMATCH,
+        "Sign in is not allowed from this domain. Check `allowedDomains` in siwe.config.ts.",
+        400,
       );
     }
 
+    const expectedDomain = requestDomain.domain;
+
+    // =========================================================================
+    // Step 7: Check message fields viem does not validate (messagePolicy in siwe.config.ts)
+    // =========================================================================
+    // uri origin, issuedAt clock skew, maximum expiration and statement
+    const policyViolation = checkMessagePolicy(parsedMessage, {
+      origin: requestDomain.origin,
+      capabilities: grants.capabilities,
+    });
+
+    if (policyViolation) {
+      return fail(policyViolation.errorCode, policyViolation.error, 400);
+    }
+
+    // =========================================================================
+    // Step 8: App hook - onBeforeVerify (siwe.hooks.ts)
+    // =========================================================================
+    // (messages without an address or chainId fail verification below)
+    const beforeVerify =
+      parsedMessage.address && parsedMessage.chainId
+        ? await siweHooks.onBeforeVerify?.({
+            request,
+            message: parsedMessage,
+            address: parsedMessage.address,
+            chainId: parsedMessage.chainId,
+          })
+        : undefined;
+
+    if (beforeVerify && !beforeVerify.ok) {
+      return fail(SiweErrorCode.SIGN_IN_REJECTED, beforeVerify.error, 403);
+    }
+
+    // =========================================================================
+    // Step 9: Get a public client for the message's chain
+    // =========================================================================
     // Create a public client for the chain specified in the SIWE message
-    // This is used for ENS resolution and ERC-6492 smart contract signature verification
+    // This is used for ERC-1271 / ERC-6492 smart contract signature verification and roles
+    // Messages for chains that are not allowed are rejected (never verified against another chain)
     const publicClient = getPublicClientForChain(parsedMessage.chainId);
 
+    if (!publicClient) {
+      return fail(
+        SiweErrorCode.CHAIN_NOT_SUPPORTED,
+        `Chain not supported: ${parsedMessage.chainId}. Please switch to a supported network.`,
+        400,
+      );
+    }
+
     // =========================================================================
-    // Step 5: Verify the SIWE message (validation + signature in one call)
+    // Step 10: Verify the SIWE message (validation + signature in one call)
+    // Only failed attempts are charged to the per-address rate limit, so nobody
+    // can lock an address out without its key
     // =========================================================================
-    // verifySiweMessage performs:
+    // verifySiweSignature performs:
     // - Domain validation (matches expectedDomain)
     // - Nonce validation (matches storedNonce)
     // - Time validation (expirationTime, notBefore)
     // - Signature verification (supports EOA and ERC-6492 smart contract accounts)
+    // EOAs (no bytecode, cached per chain) are verified locally without an eth_call
     let isValid: boolean;
     try {
-      isValid = await verifySiweMessage(publicClient, {
+      isValid = await verifySiweSignature(publicClient, {
         message,
         signature: signature as Hex,
         domain: expectedDomain,
@@ -186,42 +415,214 @@ export async function POST(request: NextRequest) {
       });
     } catch (verifyError) {
       console.error("SIWE verification error:", verifyError);
-      // Provide detailed error message based on what likely failed
-      const errorMessage = getVerificationErrorMessage(parsedMessage, expectedDomain, storedNonce);
-      return NextResponse.json({ ok: false, error: errorMessage }, { status: 400 });
+      isValid = false;
     }
 
     if (!isValid) {
-      // Verification returned false - analyze and provide helpful error
-      const errorMessage = getVerificationErrorMessage(parsedMessage, expectedDomain, storedNonce);
-      return NextResponse.json({ ok: false, error: errorMessage }, { status: 400 });
+      // Failed attempts count against the claimed address; past the limit they are answered with 429
+      const addressRateLimit = await checkRateLimit("verifyAddress", parsedMessage.address);
+      if (!addressRateLimit.allowed) {
+        return rateLimited(addressRateLimit.retryAfterSeconds);
+      }
+
+      // Analyze what likely failed and provide a helpful error
+      const { errorCode, error } = getVerificationError(parsedMessage, expectedDomain, storedNonce);
+      return fail(errorCode, error, 400);
+    }
+
+    // =========================================================================
+    // Step 11: Consume the nonce (single-use, fails if expired or already used)
+    // =========================================================================
+    const nonceRecord = await getNonceStore().consume(storedNonce);
+
+    if (!nonceRecord) {
+      return fail(
+        SiweErrorCode.NONCE_EXPIRED,
+        "Nonce has expired or was already used. Please request a new nonce and try again.",
+        400,
+      );
+    }
+
+    // requestId binding (messagePolicy.requestId): must match the one issued with the nonce
+    const requestIdViolation = checkRequestId(parsedMessage, nonceRecord.requestId);
+
+    if (requestIdViolation) {
+      return fail(requestIdViolation.errorCode, requestIdViolation.error, 400);
+    }
+
+    // Server-issued messages (POST /api/siwe/message) must be signed exactly as issued
+    if (nonceRecord.message !== undefined ? nonceRecord.message !== message : siweConfig.serverIssuedMessages) {
+      return fail(
+        SiweErrorCode.MESSAGE_MISMATCH,
+        "The signed message does not match the message issued by the server. Please sign in again.",
+        400,
+      );
+    }
+
+    // =========================================================================
+    // Step 12: Check the address against the access lists (siwe.accessList.ts)
+    // =========================================================================
+    const access = await checkAddressAccess(parsedMessage.address!, { merkleProof });
+
+    if (!access.permitted) {
+      return fail(SiweErrorCode.ADDRESS_NOT_PERMITTED, access.error, 403);
+    }
+
+    // =========================================================================
+    // Step 13: Link mode - add the wallet to the signed in user's accounts
+    // =========================================================================
+    if (mode === "link") {
+      const accountStore = getAccountStore()!;
+      const userId = session.userId ?? (await resolveUserAccounts(session.address!, session.chainId!))!.userId;
+      const linked = await accountStore.link(userId, {
+        address: parsedMessage.address!,
+        chainId: parsedMessage.chainId!,
+        linkedAt: Date.now(),
+      });
+
+      if (!linked) {
+        return fail(SiweErrorCode.ACCOUNT_ALREADY_LINKED, "This wallet is already linked to another account.", 409);
+      }
+
+      session.userId = userId;
+      session.linkedAddresses = (await accountStore.listAccounts(userId)).map(account => account.address);
+      session.nonce = undefined;
+      await session.save();
+
+      emitAuditEvent(request, { type: "account_linked", userId, ...claimed, sessionId: session.sessionId });
+
+      return NextResponse.json({
+        ok: true,
+        address: session.address,
+        userId,
+        linkedAddresses: session.linkedAddresses,
+      });
+    }
+
+    // =========================================================================
+    // Step 14: Chain mode - move the signed in session to the message's chain
+    // =========================================================================
+    if (mode === "chain") {
+      if (!isAddressEqual(parsedMessage.address!, session.address!)) {
+        return fail(SiweErrorCode.INVALID_REQUEST, "Sign with the active wallet to switch chains.", 400);
+      }
+
+      const previousChainId = session.chainId!;
+      session.chainId = parsedMessage.chainId!;
+      session.roles = await resolveRoles(publicClient, parsedMessage.address!);
+      session.nonce = undefined;
+      await session.save();
+
+      emitAuditEvent(request, { type: "chain_switched", previousChainId, ...claimed, sessionId: session.sessionId });
+
+      return NextResponse.json({ ok: true, address: session.address, chainId: session.chainId, roles: session.roles });
     }
 
     // =========================================================================
-    // Step 6: Verification passed - create authenticated session
+    // Step 15: Resolve token-gated roles and ENS profile (see siwe.config.ts)
+    // =========================================================================
+    const [roles, ensProfile] = await Promise.all([
+      resolveRoles(publicClient, parsedMessage.address!),
+      resolveEnsProfile(parsedMessage.address!),
+    ]);
+
+    // =========================================================================
+    // Step 16: App hook - onSignIn (siwe.hooks.ts) may reject or attach app data
     // =========================================================================
-    // After successful verifySiweMessage, address and chainId are guaranteed to exist
+    const signIn = await siweHooks.onSignIn?.({
+      request,
+      address: parsedMessage.address!,
+      chainId: parsedMessage.chainId!,
+      mode,
+      resources: grants.resources,
+      capabilities: grants.capabilities,
+      roles,
+      ensName: ensProfile.ensName,
+    });
+
+    if (signIn && !signIn.ok) {
+      return fail(SiweErrorCode.SIGN_IN_REJECTED, signIn.error, 403);
+    }
+
+    const data = signIn?.data;
+
+    // =========================================================================
+    // Step 17: Token mode - return bearer tokens instead of a session cookie
+    // =========================================================================
+    if (mode === "token") {
+      const tokens = await issueTokens(
+        { address: parsedMessage.address!, chainId: parsedMessage.chainId!, roles },
+        { merkleProof },
+      );
+
+      emitAuditEvent(request, { type: "verify_success", mode, ...claimed });
+
+      return NextResponse.json({
+        ok: true,
+        address: parsedMessage.address,
+        chainId: parsedMessage.chainId,
+        roles,
+        ...ensProfile,
+        data,
+        ...tokens,
+      });
+    }
+
+    // =========================================================================
+    // Step 18: Verification passed - create authenticated session
+    // =========================================================================
+    // After successful verification, address and chainId are guaranteed to exist
     // (viem validates all required EIP-4361 fields during verification)
     const signedInAt = Date.now();
     session.address = parsedMessage.address!;
     session.chainId = parsedMessage.chainId!;
     session.isLoggedIn = true;
     session.signedInAt = signedInAt;
+    session.lastSeenAt = signedInAt;
+    session.resources = grants.resources;
+    session.capabilities = grants.capabilities;
+    session.roles = roles;
+    session.ensName = ensProfile.ensName;
+    session.ensAvatar = ensProfile.ensAvatar;
+    session.data = data;
+    // Attach the sign in to its user and linked wallets (no-op unless an account store is enabled)
+    const userAccounts = await resolveUserAccounts(parsedMessage.address!, parsedMessage.chainId!);
+    session.userId = userAccounts?.userId;
+    session.linkedAddresses = userAccounts?.addresses;
     session.nonce = undefined; // Clear nonce after successful use (prevents replay attacks)
+    // Record the session server-side (no-op unless a session store is enabled)
+    session.sessionId = await registerSession({
+      address: parsedMessage.address!,
+      chainId: parsedMessage.chainId!,
+      createdAt: signedInAt,
+      userAgent: request.headers.get("user-agent") || undefined,
+      ip: getClientIp(request),
+    });
     await session.save();
 
+    emitAuditEvent(request, { type: "verify_success", mode, ...claimed, sessionId: session.sessionId });
+
     return NextResponse.json({
       ok: true,
       address: parsedMessage.address,
       chainId: parsedMessage.chainId,
       signedInAt,
+      lastSeenAt: signedInAt,
+      resources: grants.resources,
+      capabilities: grants.capabilities,
+      roles,
+      ...ensProfile,
+      data,
+      userId: session.userId,
+      linkedAddresses: session.linkedAddresses ?? [],
     });
   } catch (error) {
     // Catch any unexpected errors
     console.error("Unexpected error in SIWE verification:", error);
-    return NextResponse.json(
-      { ok: false, error: "An unexpected error occurred during verification. Please try again." },
-      { status: 500 },
+    return fail(
+      SiweErrorCode.INTERNAL_ERROR,
+      "An unexpected error occurred during verification. Please try again.",
+      500,
     );
   }
 }
@@ -13,10 +13,80 @@ import {
   ShieldCheckIcon,
   XCircleIcon,
 } from "@heroicons/react/24/outline";
+import { RequireSiwe, SignedIn, SignedOut } from "~~/components/SiweGate";
 import { RainbowKitCustomConnectButton } from "~~/components/scaffold-eth";
 import { useTargetNetwork } from "~~/hooks/scaffold-eth";
 import { useSiwe } from "~~/hooks/useSiwe";
-import { getSessionTimeRemaining, getTimeAgo } from "~~/utils/siwe";
+import { getSessionExpiresAt, getSessionTimeRemaining, getTimeAgo } from "~~/utils/siwe";
+
+/**
+ * Session details and demo secrets, rendered by RequireSiwe for signed in users only
+ */
+const SessionDetails = ({ apiKey }: { apiKey: string }) => {
+  const { targetNetwork } = useTargetNetwork();
+  const { address, signedInAt, lastSeenAt, roles, ensName, ensAvatar } = useSiwe();
+
+  if (!address || !signedInAt) return null;
+
+  return (
+    <>
+      {/* Session Details */}
+      <p className="text-sm text-base-content/60 mb-2">Session Details</p>
+      <div className="bg-base-300 p-4 rounded-lg mb-4">
+        <div className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+          <span className="text-base-content/60">Address:</span>
+          <span>
+            <Address address={address} chain={targetNetwork} />
+          </span>
+          {ensName && (
+            <>
+              <span className="text-base-content/60">ENS:</span>
+              <span className="flex items-center gap-2">
+                {ensAvatar && (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={ensAvatar} alt={ensName} className="h-5 w-5 rounded-full" />
+                )}
+                {ensName}
+              </span>
+            </>
+          )}
+          <span className="text-base-content/60">Signed in at:</span>
+          <span>
+            {new Date(signedInAt).toLocaleString()}{" "}
+            <span className="text-base-content/50">({getTimeAgo(signedInAt)})</span>
+          </span>
+          <span className="text-base-content/60">Session expires:</span>
+          <span>
+            {new Date(getSessionExpiresAt(signedInAt, lastSeenAt ?? undefined)).toLocaleString()}{" "}
+            <span className="text-base-content/50">
+              ({getSessionTimeRemaining(signedInAt, lastSeenAt ?? undefined)})
+            </span>
+          </span>
+        </div>
+      </div>
+
+      {/* Secret Data Demo */}
+      <p className="text-sm text-base-content/60 mb-2">Secret Data (Demo)</p>
+      <div className="bg-base-300 p-4 rounded-lg mb-4">
+        <div className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+          <span className="text-base-content/60">API Key:</span>
+          <span className="group font-mono cursor-pointer">
+            <span className="group-hover:hidden">{"•".repeat(19)}</span>
+            <span className="hidden group-hover:inline">{apiKey}</span>
+          </span>
+          <span className="text-base-content/60">User Role:</span>
+          <span>{roles.length > 0 ? roles.join(", ") : "authenticated"}</span>
+          <span className="text-base-content/60">Access Level:</span>
+          <span>Full</span>
+        </div>
+      </div>
+
+      <p className="text-sm text-base-content/50 italic">
+        This content is only visible because you are authenticated. Sign out to see it disappear.
+      </p>
+    </>
+  );
+};
 
 /**
  * SIWE Demo Page
@@ -29,7 +99,7 @@ const SiwePage: NextPage = () => {
   const { isConnected } = useAccount();
   const { targetNetwork } = useTargetNetwork();
 
-  const { address, chainId, isSignedIn, isLoading, error, siweMessage, signedInAt, signIn, signOut } = useSiwe();
+  const { address, isSignedIn, isLoading, error, siweMessage, signIn, signOut } = useSiwe();
 
   // Generate a random "API key" for demo purposes (stable across re-renders)
   const mockApiKey = useMemo(() => {
@@ -74,31 +144,32 @@ const SiwePage: NextPage = () => {
           <div className="card-body">
             {/* Action Area - Single row, fixed height */}
             <div className="h-12 flex items-center justify-center">
-              {/* Not Connected (and not already signed in from session) */}
-              {!isConnected && !isSignedIn && <RainbowKitCustomConnectButton />}
-
-              {/* Connected but not signed in */}
-              {isConnected && !isSignedIn && (
-                <button className="btn btn-primary btn-lg gap-2" onClick={signIn} disabled={isLoading}>
-                  {isLoading ? (
-                    <>
-                      <span className="loading loading-spinner"></span>
-                      Signing...
-                    </>
-                  ) : (
-                    <>
-                      <LockClosedIcon className="h-5 w-5" />
-                      Sign in with Ethereum
-                    </>
-                  )}
-                </button>
-              )}
+              {/* Signed out: connect the wallet, then sign in */}
+              <SignedOut fallback={<span className="loading loading-spinner"></span>}>
+                {isConnected ? (
+                  <button className="btn btn-primary btn-lg gap-2" onClick={() => signIn()} disabled={isLoading}>
+                    {isLoading ? (
+                      <>
+                        <span className="loading loading-spinner"></span>
+                        Signing...
+                      </>
+                    ) : (
+                      <>
+                        <LockClosedIcon className="h-5 w-5" />
+                        Sign in with Ethereum
+                      </>
+                    )}
+                  </button>
+                ) : (
+                  <RainbowKitCustomConnectButton />
+                )}
+              </SignedOut>
 
               {/* Signed In - Pill and button inline */}
-              {isSignedIn && address && (
+              <SignedIn>
                 <div className="flex items-center gap-3">
                   <div className="flex items-center gap-2 px-4 py-2 min-h-[48px] bg-success/10 border border-success/30 rounded-full">
-                    <Address address={address} chain={targetNetwork} />
+                    {address && <Address address={address} chain={targetNetwork} />}
                   </div>
                   <button className="btn btn-outline btn-error btn-lg gap-2" onClick={signOut} disabled={isLoading}>
                     {isLoading ? (
@@ -114,7 +185,7 @@ const SiwePage: NextPage = () => {
                     )}
                   </button>
                 </div>
-              )}
+              </SignedIn>
             </div>
 
             {/* Status Notification */}
@@ -124,21 +195,28 @@ const SiwePage: NextPage = () => {
                   <XCircleIcon className="h-5 w-5" />
                   <span className="text-sm">{error}</span>
                 </div>
-              ) : isSignedIn ? (
-                <div className="alert alert-success h-10 min-h-0 py-0 px-4">
-                  <CheckCircleIcon className="h-5 w-5" />
-                  <span className="text-sm">Successfully authenticated</span>
-                </div>
-              ) : isConnected ? (
-                <div className="alert alert-warning h-10 min-h-0 py-0 px-4">
-                  <ClockIcon className="h-5 w-5" />
-                  <span className="text-sm">Waiting for authentication</span>
-                </div>
               ) : (
-                <div className="alert h-10 min-h-0 py-0 px-4">
-                  <ClockIcon className="h-5 w-5" />
-                  <span className="text-sm">Waiting for wallet</span>
-                </div>
+                <>
+                  <SignedIn>
+                    <div className="alert alert-success h-10 min-h-0 py-0 px-4">
+                      <CheckCircleIcon className="h-5 w-5" />
+                      <span className="text-sm">Successfully authenticated</span>
+                    </div>
+                  </SignedIn>
+                  <SignedOut>
+                    {isConnected ? (
+                      <div className="alert alert-warning h-10 min-h-0 py-0 px-4">
+                        <ClockIcon className="h-5 w-5" />
+                        <span className="text-sm">Waiting for authentication</span>
+                      </div>
+                    ) : (
+                      <div className="alert h-10 min-h-0 py-0 px-4">
+                        <ClockIcon className="h-5 w-5" />
+                        <span className="text-sm">Waiting for wallet</span>
+                      </div>
+                    )}
+                  </SignedOut>
+                </>
               )}
             </div>
 
@@ -179,58 +257,19 @@ const SiwePage: NextPage = () => {
                 </span>
               </summary>
               <div className="collapse-content">
-                {isSignedIn && address && chainId && signedInAt ? (
-                  <>
-                    {/* Session Details */}
-                    <p className="text-sm text-base-content/60 mb-2">Session Details</p>
-                    <div className="bg-base-300 p-4 rounded-lg mb-4">
-                      <div className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
-                        <span className="text-base-content/60">Address:</span>
-                        <span>
-                          <Address address={address} chain={targetNetwork} />
-                        </span>
-                        <span className="text-base-content/60">Signed in at:</span>
-                        <span>
-                          {new Date(signedInAt).toLocaleString()}{" "}
-                          <span className="text-base-content/50">({getTimeAgo(signedInAt)})</span>
-                        </span>
-                        <span className="text-base-content/60">Session expires:</span>
-                        <span>
-                          {new Date(signedInAt + 7 * 24 * 60 * 60 * 1000).toLocaleString()}{" "}
-                          <span className="text-base-content/50">({getSessionTimeRemaining(signedInAt)})</span>
-                        </span>
-                      </div>
-                    </div>
-
-                    {/* Secret Data Demo */}
-                    <p className="text-sm text-base-content/60 mb-2">Secret Data (Demo)</p>
-                    <div className="bg-base-300 p-4 rounded-lg mb-4">
-                      <div className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
-                        <span className="text-base-content/60">API Key:</span>
-                        <span className="group font-mono cursor-pointer">
-                          <span className="group-hover:hidden">{"•".repeat(19)}</span>
-                          <span className="hidden group-hover:inline">{mockApiKey}</span>
-                        </span>
-                        <span className="text-base-content/60">User Role:</span>
-                        <span>authenticated</span>
-                        <span className="text-base-content/60">Access Level:</span>
-                        <span>Full</span>
-                      </div>
+                <RequireSiwe
+                  signedOut={
+                    <div className="py-2">
+                      <p className="text-sm font-medium mb-1">Authentication Required</p>
+                      <p className="text-sm text-base-content/60">
+                        Sign in with Ethereum to access protected content. This demonstrates how to gate content behind
+                        SIWE authentication.
+                      </p>
                     </div>
-
-                    <p className="text-sm text-base-content/50 italic">
-                      This content is only visible because you are authenticated. Sign out to see it disappear.
-                    </p>
-                  </>
-                ) : (
-                  <div className="py-2">
-                    <p className="text-sm font-medium mb-1">Authentication Required</p>
-                    <p className="text-sm text-base-content/60">
-                      Sign in with Ethereum to access protected content. This demonstrates how to gate content behind
-                      SIWE authentication.
-                    </p>
-                  </div>
-                )}
+                  }
+                >
+                  <SessionDetails apiKey={mockApiKey} />
+                </RequireSiwe>
               </div>
             </details>
           </div>
@@ -291,39 +330,42 @@ const SiwePage: NextPage = () => {
           <div className="collapse-content">
             <p className="text-sm text-base-content/70 mb-4">
               Use the <code className="bg-base-300 px-1 rounded">useSiwe</code> hook in your components to add SIWE
-              authentication:
+              authentication, and the gate components to show content by sign in state:
             </p>
             <pre className="bg-base-300 p-4 rounded-lg text-xs overflow-x-auto">
-              {`import { useSiwe } from "~~/hooks/useSiwe";
+              {`import { SignedIn, SignedOut, RequireSiwe } from "~~/components/SiweGate";
+import { useSiwe } from "~~/hooks/useSiwe";
 
 function MyComponent() {
   const { 
-    isSignedIn, 
     address, 
     chainId,
     signedInAt,
-    siweMessage,
     signIn, 
     signOut,
     isLoading,
-    error,
   } = useSiwe();
 
-  if (!isSignedIn) {
-    return (
-      <button onClick={signIn} disabled={isLoading}>
-        Sign in with Ethereum
-      </button>
-    );
-  }
-
   return (
-    <div>
-      <p>Signed in as {address}</p>
-      <p>Chain ID: {chainId}</p>
-      <p>Session started: {new Date(signedInAt).toLocaleString()}</p>
-      <button onClick={signOut}>Sign Out</button>
-    </div>
+    <>
+      <SignedOut>
+        <button onClick={() => signIn()} disabled={isLoading}>
+          Sign in with Ethereum
+        </button>
+      </SignedOut>
+
+      <SignedIn>
+        <p>Signed in as {address}</p>
+        <p>Chain ID: {chainId}</p>
+        <p>Session started: {new Date(signedInAt).toLocaleString()}</p>
+        <button onClick={signOut}>Sign Out</button>
+      </SignedIn>
+
+      {/* Signed in with the "holder" role (shows a sign in prompt otherwise) */}
+      <RequireSiwe roles={["holder"]}>
+        <HolderDashboard />
+      </RequireSiwe>
+    </>
   );
 }`}
             </pre>
@@ -341,9 +383,15 @@ function MyComponent() {
             </p>
             <pre className="bg-base-300 p-4 rounded-lg text-xs overflow-x-auto">
               {`const siweConfig = {
-  // Session cookie duration (days)
+  // Session cookie duration (days), renewed while active
   sessionDurationDays: 7,
 
+  // Sign out after inactivity (minutes, 0 = off)
+  idleTimeoutMinutes: 0,
+
+  // Hard limit since sign in (days)
+  absoluteMaxDays: 30,
+
   // How long user has to sign (minutes)
   messageExpirationMinutes: 10,
 
@@ -0,0 +1,4 @@
+export const preContent = `import { SiweProvider } from "~~/components/SiweProvider";`;
+export const extraProviders = {
+  SiweProvider: {},
+};
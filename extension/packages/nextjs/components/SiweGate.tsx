@@ -0,0 +1,180 @@
+"use client";
+
+import { ReactNode } from "react";
+import { useAccount, useChainId } from "wagmi";
+import { LockClosedIcon, ShieldExclamationIcon, XCircleIcon } from "@heroicons/react/24/outline";
+import { RainbowKitCustomConnectButton } from "~~/components/scaffold-eth";
+import { SiweSignInOptions, useSiwe, useSiweStatus } from "~~/hooks/useSiwe";
+import { getSiweChain } from "~~/utils/siwe.chains";
+
+/**
+ * Shown while the session is checked
+ */
+const DEFAULT_FALLBACK = (
+  <div className="flex justify-center py-4">
+    <span className="loading loading-spinner"></span>
+  </div>
+);
+
+/**
+ * SignedIn - Renders its children only for signed in users
+ *
+ * @param fallback - Rendered until the session has been checked (nothing by default)
+ */
+export function SignedIn({ children, fallback = null }: { children: ReactNode; fallback?: ReactNode }) {
+  const status = useSiweStatus();
+
+  if (status === "loading") return <>{fallback}</>;
+  return status === "signed-in" ? <>{children}</> : null;
+}
+
+/**
+ * SignedOut - Renders its children only for signed out users
+ *
+ * @param fallback - Rendered until the session has been checked (nothing by default)
+ */
+export function SignedOut({ children, fallback = null }: { children: ReactNode; fallback?: ReactNode }) {
+  const status = useSiweStatus();
+
+  if (status === "loading") return <>{fallback}</>;
+  return status === "signed-out" ? <>{children}</> : null;
+}
+
+/**
+ * SiweSignInPrompt - Prebuilt sign in flow: connect the wallet, then sign the SIWE message
+ *
+ * @param options - Passed to signIn() (resources, capabilities, merkleProof...)
+ */
+export function SiweSignInPrompt({
+  title = "Authentication Required",
+  description = "Sign in with Ethereum to access this content.",
+  options,
+}: {
+  title?: ReactNode;
+  description?: ReactNode;
+  options?: SiweSignInOptions;
+}) {
+  const { isConnected } = useAccount();
+  const { signIn, isLoading, error } = useSiwe();
+
+  return (
+    <div className="flex flex-col items-center gap-4 py-6 text-center">
+      <LockClosedIcon className="h-10 w-10 text-base-content/60" />
+      <div>
+        <p className="font-medium mb-1">{title}</p>
+        <p className="text-sm text-base-content/60">{description}</p>
+      </div>
+
+      {isConnected ? (
+        <button className="btn btn-primary gap-2" onClick={() => signIn(options)} disabled={isLoading}>
+          {isLoading ? (
+            <>
+              <span className="loading loading-spinner"></span>
+              Signing...
+            </>
+          ) : (
+            <>
+              <LockClosedIcon className="h-5 w-5" />
+              Sign in with Ethereum
+            </>
+          )}
+        </button>
+      ) : (
+        <RainbowKitCustomConnectButton />
+      )}
+
+      {error && (
+        <div className="alert alert-error h-10 min-h-0 py-0 px-4 w-auto">
+          <XCircleIcon className="h-5 w-5" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Explains why a signed in user may not see the content of RequireSiwe
+ */
+function SiweForbidden({ missingRoles, requiredChainId }: { missingRoles: string[]; requiredChainId?: number }) {
+  const walletChainId = useChainId();
+  const { updateChain, isLoading } = useSiwe();
+  const chainName = requiredChainId ? (getSiweChain(requiredChainId)?.name ?? `chain ${requiredChainId}`) : null;
+
+  return (
+    <div className="flex flex-col items-center gap-4 py-6 text-center">
+      <ShieldExclamationIcon className="h-10 w-10 text-warning" />
+      {missingRoles.length > 0 ? (
+        <div>
+          <p className="font-medium mb-1">Access Denied</p>
+          <p className="text-sm text-base-content/60">This content requires the {missingRoles.join(", ")} role.</p>
+        </div>
+      ) : (
+        <>
+          <div>
+            <p className="font-medium mb-1">Wrong Network</p>
+            <p className="text-sm text-base-content/60">
+              {walletChainId === requiredChainId
+                ? `Use ${chainName} for your session to access this content.`
+                : `Switch your wallet to ${chainName} to access this content.`}
+            </p>
+          </div>
+          {walletChainId === requiredChainId && (
+            <button className="btn btn-primary" onClick={() => updateChain()} disabled={isLoading}>
+              {isLoading ? <span className="loading loading-spinner"></span> : `Use ${chainName}`}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * RequireSiwe - Renders its children only for signed in users that meet the requirements
+ *
+ * - While the session is checked: `fallback` (a spinner by default)
+ * - Signed out: `signedOut` (SiweSignInPrompt by default)
+ * - Missing a role or on another chain: `forbidden` (an explanation by default)
+ *
+ * Client-side gates only hide content: protect the data itself with withSiweAuth or the
+ * middleware (`protectedPaths` in siwe.config.ts).
+ *
+ * @example
+ * ```tsx
+ * <RequireSiwe roles={["holder"]} chainId={1}>
+ *   <HolderDashboard />
+ * </RequireSiwe>
+ * ```
+ */
+export function RequireSiwe({
+  children,
+  roles = [],
+  chainId,
+  fallback = DEFAULT_FALLBACK,
+  signedOut = <SiweSignInPrompt />,
+  forbidden,
+}: {
+  children: ReactNode;
+  /** Token-gated roles the session must have (all of them, see `roles` in siwe.config.ts) */
+  roles?: string[];
+  /** Chain the session must be on */
+  chainId?: number;
+  fallback?: ReactNode;
+  signedOut?: ReactNode;
+  forbidden?: ReactNode;
+}) {
+  const { isSessionChecked, isSignedIn, hasRole, chainId: sessionChainId } = useSiwe();
+
+  if (!isSessionChecked) return <>{fallback}</>;
+  if (!isSignedIn) return <>{signedOut}</>;
+
+  const missingRoles = roles.filter(role => !hasRole(role));
+  const isWrongChain = chainId !== undefined && sessionChainId !== chainId;
+
+  if (missingRoles.length > 0 || isWrongChain) {
+    return <>{forbidden ?? <SiweForbidden missingRoles={missingRoles} requiredChainId={chainId} />}</>;
+  }
+
+  return <>{children}</>;
+}
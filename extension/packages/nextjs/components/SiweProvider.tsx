@@ -0,0 +1,53 @@
+"use client";
+
+import { ReactNode, createContext, useContext } from "react";
+import { SiweContext, useSiweController } from "~~/hooks/useSiwe";
+import { SiweSessionData } from "~~/utils/siwe";
+
+/**
+ * Session read on the server, passed down to SiweProvider (see SiweHydration)
+ */
+const SiweHydrationContext = createContext<SiweSessionData | undefined>(undefined);
+
+/**
+ * SiweProvider - Shares one SIWE session between all components
+ *
+ * Owns the session state and its effects (session check, auto-logout on wallet changes,
+ * cross-tab sync), so useSiwe() can be called from any number of components.
+ * Must be rendered inside the wagmi provider; ScaffoldEthAppWithProviders includes it.
+ *
+ * @param initialSession - Session read on the server (falls back to SiweHydration)
+ */
+export function SiweProvider({ children, initialSession }: { children: ReactNode; initialSession?: SiweSessionData }) {
+  const hydratedSession = useContext(SiweHydrationContext);
+  const value = useSiweController(initialSession ?? hydratedSession);
+
+  return <SiweContext.Provider value={value}>{children}</SiweContext.Provider>;
+}
+
+/**
+ * SiweHydration - Hands a session read in a server component to SiweProvider,
+ * so the first render is already signed in (no loading state, no session fetch)
+ *
+ * Wrap the providers in app/layout.tsx. Reading the session cookie makes the pages dynamic.
+ *
+ * @example
+ * ```tsx
+ * // app/layout.tsx
+ * const ScaffoldEthApp = async ({ children }: { children: React.ReactNode }) => {
+ *   const initialSession = await getInitialSiweSession();
+ *   return (
+ *     <html suppressHydrationWarning>
+ *       <body>
+ *         <SiweHydration session={initialSession}>
+ *           <ScaffoldEthAppWithProviders>{children}</ScaffoldEthAppWithProviders>
+ *         </SiweHydration>
+ *       </body>
+ *     </html>
+ *   );
+ * };
+ * ```
+ */
+export function SiweHydration({ children, session }: { children: ReactNode; session: SiweSessionData }) {
+  return <SiweHydrationContext.Provider value={session}>{children}</SiweHydrationContext.Provider>;
+}
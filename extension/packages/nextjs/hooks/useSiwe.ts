@@ -1,10 +1,32 @@
 "use client";
 
-import { useCallback, useEffect, useRef, useState } from "react";
-import { Address } from "viem";
-import { createSiweMessage } from "viem/siwe";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { useRouter } from "next/navigation";
+import { Address, BaseError, Hex, UserRejectedRequestError } from "viem";
 import { useAccount, useChainId, useSignMessage } from "wagmi";
+import {
+  SiweErrorCode,
+  SiweSessionData,
+  SiweSessionRecord,
+  getSafeReturnTo,
+  getSessionExpiresAt,
+  getSiweMessageOptions,
+  isDomainAllowed,
+  prepareSiweMessage,
+} from "~~/utils/siwe";
+import { isChainAllowed } from "~~/utils/siwe.chains";
 import siweConfig from "~~/utils/siwe.config";
+import type { SiweAppData } from "~~/utils/siwe.hooks";
+import { ReCapAttenuations } from "~~/utils/siwe.recap";
 
 /**
  * Safely extract error message from unknown error type
@@ -19,207 +41,523 @@ function getErrorMessage(error: unknown, fallback: string): string {
   return fallback;
 }
 
+/**
+ * An error with a machine-readable code (thrown inside the hook's actions)
+ */
+class SiweRequestError extends Error {
+  errorCode: SiweErrorCode;
+
+  constructor(message: string, errorCode: SiweErrorCode) {
+    super(message);
+    this.errorCode = errorCode;
+  }
+}
+
+/**
+ * Get the SiweErrorCode of an unknown error
+ */
+function getErrorCode(error: unknown): SiweErrorCode {
+  if (error instanceof SiweRequestError) {
+    return error.errorCode;
+  }
+  // fetch() rejects with a TypeError when the request itself fails (offline, CORS, ...)
+  if (error instanceof TypeError) {
+    return SiweErrorCode.NETWORK_ERROR;
+  }
+  return SiweErrorCode.INTERNAL_ERROR;
+}
+
+/**
+ * Check whether the user rejected a wallet request (EIP-1193 error 4001)
+ */
+function isUserRejection(error: unknown): boolean {
+  if (error instanceof BaseError) {
+    return !!error.walk(cause => cause instanceof UserRejectedRequestError);
+  }
+  return (error as { code?: unknown } | null)?.code === UserRejectedRequestError.code;
+}
+
+/**
+ * Error of a failed API response (the route's `error` / `errorCode` when available)
+ * Rate-limited responses (429) always produce a "too many attempts" error,
+ * even if a proxy answered without a JSON body.
+ */
+async function getResponseError(response: Response, fallback: string): Promise<SiweRequestError> {
+  const data = await response.json().catch(() => ({}));
+
+  if (response.status === 429) {
+    const retryAfter = response.headers.get("Retry-After");
+    return new SiweRequestError(
+      data.error || `Too many attempts. Please try again${retryAfter ? ` in ${retryAfter} seconds` : " later"}.`,
+      SiweErrorCode.RATE_LIMITED,
+    );
+  }
+
+  return new SiweRequestError(data.error || fallback, data.errorCode || SiweErrorCode.INTERNAL_ERROR);
+}
+
+/**
+ * Session changes announced to the other tabs (see `sessionSync` in siwe.config.ts)
+ */
+type SiweSyncEvent = "signed-in" | "signed-out" | "session-updated";
+
+/** BroadcastChannel name, also the localStorage key of the fallback */
+const SYNC_CHANNEL = "siwe-session";
+
+/** Focus and visibility changes often fire together: revalidate at most this often */
+const REVALIDATE_THROTTLE_MS = 5_000;
+
+/** Longest delay setTimeout supports (~24.8 days) */
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/**
+ * Get the message for the connected wallet to sign
+ * - With `serverIssuedMessages`, the server prepares the whole message (and later verifies the signed text byte-for-byte)
+ * - Otherwise, fetch a nonce and create the message here
+ * "link" and "chain" intents keep the current sign in while the nonce is issued.
+ */
+async function getMessageToSign(
+  address: Address,
+  chainId: number,
+  options: SiweSignInOptions,
+  intent: "sign-in" | "link" | "chain",
+): Promise<string> {
+  if (siweConfig.serverIssuedMessages) {
+    const messageResponse = await fetch("/api/siwe/message", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        address,
+        chainId,
+        resources: options.resources,
+        capabilities: options.capabilities,
+        intent,
+      }),
+    });
+    if (!messageResponse.ok) {
+      throw await getResponseError(messageResponse, "Failed to prepare message");
+    }
+    const { message } = await messageResponse.json();
+    return message;
+  }
+
+  const { domain, uri } = getSiweMessageOptions();
+  if (!isDomainAllowed(domain)) {
+    throw new SiweRequestError(
+      `Sign in is not allowed from ${domain}. Check \`allowedDomains\` in siwe.config.ts.`,
+      SiweErrorCode.DOMAIN_MISMATCH,
+    );
+  }
+
+  const nonceResponse = await fetch(intent === "sign-in" ? "/api/siwe/nonce" : `/api/siwe/nonce?intent=${intent}`);
+  if (!nonceResponse.ok) {
+    throw await getResponseError(nonceResponse, "Failed to fetch nonce");
+  }
+  const { nonce, requestId } = await nonceResponse.json();
+
+  return prepareSiweMessage({
+    address,
+    chainId,
+    domain,
+    uri,
+    nonce,
+    requestId,
+    statement: options.statement,
+    resources: options.resources,
+    capabilities: options.capabilities,
+  });
+}
+
 /**
  * SIWE session state returned by the useSiwe hook
+ * TData is the app data attached by the onSignIn hook (see SiweAppData in siwe.hooks.ts)
  */
-export interface SiweState {
+export interface SiweState<TData extends object = SiweAppData> {
   /** The authenticated address, if signed in */
   address: Address | null;
   /** The chain ID from the SIWE session */
   chainId: number | null;
   /** Whether the user is currently signed in with SIWE */
   isSignedIn: boolean;
+  /** Whether the session is known (checked on mount, or read on the server) */
+  isSessionChecked: boolean;
   /** Whether an operation is in progress (signing, verifying, checking session) */
   isLoading: boolean;
   /** Error message from the last operation, if any */
   error: string | null;
+  /** Machine-readable code of `error` (for localized messages or programmatic handling) */
+  errorCode: SiweErrorCode | null;
   /** The last SIWE message that was signed (for educational display) */
   siweMessage: string | null;
   /** Unix timestamp (ms) when the session was created */
   signedInAt: number | null;
+  /** Unix timestamp (ms) of the last session renewal (used for the idle timeout) */
+  lastSeenAt: number | null;
+  /** Resources (URIs) granted by the signed message */
+  resources: string[];
+  /** ReCap capabilities granted by the signed message */
+  capabilities: ReCapAttenuations | null;
+  /** Token-gated roles resolved at sign in */
+  roles: string[];
+  /** Primary ENS name of the signed in address, if any */
+  ensName: string | null;
+  /** ENS avatar URL of the signed in address, if any */
+  ensAvatar: string | null;
+  /** App data attached to the session by the onSignIn hook */
+  data: TData | null;
+  /** Stable user id shared by all linked wallets (requires an account store) */
+  userId: string | null;
+  /** Wallets linked to the user; the session switches between them without signing again */
+  linkedAddresses: Address[];
+  /** Whether a wallet link is in progress (started with startLinking) */
+  isLinking: boolean;
 }
 
 /**
- * useSiwe - React hook for Sign in with Ethereum authentication
- *
- * Provides a complete SIWE flow:
- * - Automatic session checking on mount
- * - signIn() - Generate nonce, create message, sign, and verify
- * - signOut() - Destroy the session
- *
- * @example
- * ```tsx
- * const { isSignedIn, address, signIn, signOut, isLoading, error } = useSiwe();
- *
- * if (!isSignedIn) {
- *   return <button onClick={signIn}>Sign in with Ethereum</button>;
- * }
+ * Options for useSiwe().signIn
+ */
+export interface SiweSignInOptions {
+  /** Resources (URIs) to request in the message. Must be listed in `allowedResources` (siwe.config.ts) */
+  resources?: string[];
+  /**
+   * Override the statement from siwe.config.ts
+   * (requires `messagePolicy.statement: false`; ignored with `serverIssuedMessages`)
+   */
+  statement?: string;
+  /**
+   * ReCap (EIP-5573) capabilities to request, keyed by resource URI
+   * e.g. { "https://example.com/notes": { "crud/read": [{}] } }
+   */
+  capabilities?: ReCapAttenuations;
+  /** Merkle proof of the connected address, for Merkle allow-lists (`siweAccessLists` in siwe.accessList.ts) */
+  merkleProof?: Hex[];
+}
+
+/**
+ * State after signing out (or after the current session was revoked)
+ */
+const SIGNED_OUT_STATE: SiweState<never> = {
+  address: null,
+  chainId: null,
+  isSignedIn: false,
+  isSessionChecked: true,
+  isLoading: false,
+  error: null,
+  errorCode: null,
+  siweMessage: null,
+  signedInAt: null,
+  lastSeenAt: null,
+  resources: [],
+  capabilities: null,
+  roles: [],
+  ensName: null,
+  ensAvatar: null,
+  data: null,
+  userId: null,
+  linkedAddresses: [],
+  isLinking: false,
+};
+
+/**
+ * Session fields of SiweState from GET /api/siwe/session (or getInitialSiweSession() for SSR)
+ */
+function getSessionState(session: SiweSessionData) {
+  return {
+    address: session.address || null,
+    chainId: session.chainId || null,
+    isSignedIn: session.isLoggedIn || false,
+    signedInAt: session.signedInAt || null,
+    lastSeenAt: session.lastSeenAt || null,
+    resources: session.resources || [],
+    capabilities: session.capabilities || null,
+    roles: session.roles || [],
+    ensName: session.ensName || null,
+    ensAvatar: session.ensAvatar || null,
+    data: session.data || null,
+    userId: session.userId || null,
+    linkedAddresses: session.linkedAddresses || [],
+  };
+}
+
+/**
+ * Holds the SIWE state of a SiweProvider
+ * Components subscribe with useSyncExternalStore, so selector hooks
+ * only re-render when the part of the state they read changes.
+ */
+interface SiweStore {
+  getState: () => SiweState;
+  setState: (update: SiweState | ((prev: SiweState) => SiweState)) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+function createSiweStore(initialState: SiweState): SiweStore {
+  let state = initialState;
+  const listeners = new Set<() => void>();
+
+  return {
+    getState: () => state,
+    setState: update => {
+      const next = typeof update === "function" ? update(state) : update;
+      if (next === state) return;
+      state = next;
+      listeners.forEach(listener => listener());
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * An active session of the signed in wallet (requires a session store)
+ */
+export interface SiweActiveSession extends SiweSessionRecord {
+  /** Whether this is the session of the current browser */
+  isCurrent: boolean;
+}
+
+/**
+ * Owns the SIWE state, actions and effects (session checks, auto-logout, cross-tab sync)
+ * Runs once per app inside SiweProvider; components read it with useSiwe() and the selector hooks.
  *
- * return (
- *   <div>
- *     <p>Signed in as {address}</p>
- *     <button onClick={signOut}>Sign Out</button>
- *   </div>
- * );
- * ```
+ * @param initialSession - Session read on the server (skips the session check on mount)
  */
-export function useSiwe() {
+export function useSiweController(initialSession?: SiweSessionData) {
   // Wagmi hooks for wallet state
   const { address: connectedAddress, isConnected } = useAccount();
   const chainId = useChainId();
   const { signMessageAsync } = useSignMessage();
+  const router = useRouter();
 
-  // SIWE state
-  const [state, setState] = useState<SiweState>({
-    address: null,
-    chainId: null,
-    isSignedIn: false,
-    isLoading: true, // Start as loading to check session
-    error: null,
-    siweMessage: null,
-    signedInAt: null,
-  });
+  // SIWE state (starts as loading to check the session, unless it was read on the server)
+  const [store] = useState(() =>
+    createSiweStore(
+      initialSession
+        ? { ...SIGNED_OUT_STATE, ...getSessionState(initialSession) }
+        : { ...SIGNED_OUT_STATE, isSessionChecked: false, isLoading: true },
+    ),
+  );
+  const state = useSyncExternalStore(store.subscribe, store.getState, store.getState);
+  const setState = store.setState;
+
+  // Channel to the other tabs (null without BroadcastChannel support or with `crossTab` disabled)
+  const syncChannel = useRef<BroadcastChannel | null>(null);
 
   /**
-   * Check the current session status
-   * Called on mount and after sign in/out
+   * Tell the other tabs that the session changed
    */
-  const checkSession = useCallback(async () => {
-    try {
-      const response = await fetch("/api/siwe/session");
-      const data = await response.json();
+  const broadcastSessionChange = useCallback((event: SiweSyncEvent) => {
+    if (!siweConfig.sessionSync.crossTab) return;
 
-      setState(prev => ({
-        ...prev,
-        address: data.address || null,
-        chainId: data.chainId || null,
-        isSignedIn: data.isLoggedIn || false,
-        isLoading: false,
-        error: null,
-        signedInAt: data.signedInAt || null,
-      }));
-    } catch (error) {
-      console.error("Failed to check session:", error);
-      setState(prev => ({
-        ...prev,
-        isSignedIn: false,
-        isLoading: false,
-        error: "Failed to check session status",
-      }));
+    if (syncChannel.current) {
+      syncChannel.current.postMessage(event);
+      return;
+    }
+    // Fallback: other tabs receive a "storage" event (the timestamp makes every write a change)
+    try {
+      localStorage.setItem(SYNC_CHANNEL, JSON.stringify({ event, at: Date.now() }));
+    } catch {
+      // Storage unavailable (e.g. private mode): tabs catch up when they revalidate
     }
   }, []);
 
+  /**
+   * Fetch the session and update the state
+   * Background revalidations keep the current state when they fail, and are
+   * dropped while an action (sign in, sign out...) is in progress.
+   */
+  const loadSession = useCallback(
+    async (background: boolean) => {
+      try {
+        const response = await fetch("/api/siwe/session");
+        // An error response is not a signed out session
+        if (!response.ok) {
+          throw await getResponseError(response, "Failed to check session status");
+        }
+        const session: SiweSessionData = await response.json();
+
+        setState(prev => {
+          if (background && prev.isLoading) return prev;
+          return {
+            ...prev,
+            ...getSessionState(session),
+            isSessionChecked: true,
+            isLoading: false,
+            error: null,
+            errorCode: null,
+          };
+        });
+      } catch (error) {
+        if (background) {
+          console.warn("Failed to revalidate session:", error);
+          return;
+        }
+        console.error("Failed to check session:", error);
+        setState(prev => ({
+          ...prev,
+          isSignedIn: false,
+          isSessionChecked: true,
+          isLoading: false,
+          error: "Failed to check session status",
+          errorCode: getErrorCode(error),
+        }));
+      }
+    },
+    [setState],
+  );
+
+  /**
+   * Check the current session status
+   * Called on mount and after sign in/out
+   */
+  const checkSession = useCallback(() => loadSession(false), [loadSession]);
+
+  // When the session was last revalidated in the background
+  const lastRevalidatedAt = useRef(0);
+
+  /**
+   * Check the session in the background (other tabs, focus, interval, expiry)
+   */
+  const revalidateSession = useCallback(
+    (force = false) => {
+      if (!force && Date.now() - lastRevalidatedAt.current < REVALIDATE_THROTTLE_MS) return;
+      lastRevalidatedAt.current = Date.now();
+      return loadSession(true);
+    },
+    [loadSession],
+  );
+
   /**
    * Sign in with Ethereum
    * 1. Fetch a fresh nonce from the server
    * 2. Create a SIWE message
+   *    (with `serverIssuedMessages`, the server returns the prepared message instead)
    * 3. Sign the message with the wallet
    * 4. Send to server for verification
    * 5. Update session state
+   * 6. Redirect to `returnTo` (set by middleware) if present
    */
-  const signIn = useCallback(async () => {
-    // Validate wallet is connected
-    if (!isConnected || !connectedAddress) {
-      setState(prev => ({
-        ...prev,
-        error: "Please connect your wallet first",
-      }));
-      return { ok: false, error: "Wallet not connected" };
-    }
+  const signIn = useCallback(
+    async (options: SiweSignInOptions = {}) => {
+      // Validate wallet is connected
+      if (!isConnected || !connectedAddress) {
+        setState(prev => ({
+          ...prev,
+          error: "Please connect your wallet first",
+          errorCode: SiweErrorCode.WALLET_NOT_CONNECTED,
+        }));
+        return { ok: false, error: "Wallet not connected", errorCode: SiweErrorCode.WALLET_NOT_CONNECTED };
+      }
 
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+      setState(prev => ({ ...prev, isLoading: true, error: null, errorCode: null }));
 
-    try {
-      // Step 1: Fetch nonce from server
-      const nonceResponse = await fetch("/api/siwe/nonce");
-      if (!nonceResponse.ok) {
-        throw new Error("Failed to fetch nonce");
-      }
-      const { nonce } = await nonceResponse.json();
+      try {
+        // Step 1 & 2: Get the SIWE message to sign
+        const message = await getMessageToSign(connectedAddress, chainId, options, "sign-in");
 
-      // Step 2: Create SIWE message
-      const now = new Date();
-      const expirationTime = new Date(now.getTime() + siweConfig.messageExpirationMinutes * 60 * 1000);
+        // Store the message for display purposes
+        setState(prev => ({ ...prev, siweMessage: message }));
 
-      const message = createSiweMessage({
-        address: connectedAddress,
-        chainId,
-        domain: window.location.host,
-        nonce,
-        uri: window.location.origin,
-        version: "1",
-        statement: siweConfig.statement,
-        issuedAt: now,
-        expirationTime,
-      });
+        // Step 3: Sign the message
+        let signature: string;
+        try {
+          signature = await signMessageAsync({ message });
+        } catch (signError: unknown) {
+          // User rejected or wallet error
+          const isRejection = isUserRejection(signError);
+          const errorMessage = isRejection ? "Signature request was rejected" : "Failed to sign message";
+          const errorCode = isRejection ? SiweErrorCode.USER_REJECTED : SiweErrorCode.SIGNING_FAILED;
+          setState(prev => ({
+            ...prev,
+            isLoading: false,
+            error: errorMessage,
+            errorCode,
+          }));
+          return { ok: false, error: errorMessage, errorCode };
+        }
 
-      // Store the message for display purposes
-      setState(prev => ({ ...prev, siweMessage: message }));
+        // Step 4: Verify with server
+        const verifyResponse = await fetch("/api/siwe/verify", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ message, signature, merkleProof: options.merkleProof }),
+        });
 
-      // Step 3: Sign the message
-      let signature: string;
-      try {
-        signature = await signMessageAsync({ message });
-      } catch (signError: unknown) {
-        // User rejected or wallet error
-        const isRejection = signError instanceof Error && signError.message.toLowerCase().includes("rejected");
-        const errorMessage = isRejection ? "Signature request was rejected" : "Failed to sign message";
+        if (verifyResponse.status === 429) {
+          throw await getResponseError(verifyResponse, "Verification failed");
+        }
+
+        const verifyData = await verifyResponse.json();
+
+        if (!verifyResponse.ok || !verifyData.ok) {
+          const errorMessage = verifyData.error || "Verification failed";
+          const errorCode: SiweErrorCode = verifyData.errorCode || SiweErrorCode.INTERNAL_ERROR;
+          setState(prev => ({
+            ...prev,
+            isLoading: false,
+            error: errorMessage,
+            errorCode,
+          }));
+          return { ok: false, error: errorMessage, errorCode };
+        }
+
+        // Step 5: Success! Update state
         setState(prev => ({
           ...prev,
+          address: verifyData.address,
+          chainId: verifyData.chainId,
+          isSignedIn: true,
           isLoading: false,
-          error: errorMessage,
+          error: null,
+          errorCode: null,
+          signedInAt: verifyData.signedInAt,
+          lastSeenAt: verifyData.lastSeenAt,
+          resources: verifyData.resources || [],
+          capabilities: verifyData.capabilities || null,
+          roles: verifyData.roles || [],
+          ensName: verifyData.ensName || null,
+          ensAvatar: verifyData.ensAvatar || null,
+          data: verifyData.data || null,
+          userId: verifyData.userId || null,
+          linkedAddresses: verifyData.linkedAddresses || [],
         }));
-        return { ok: false, error: errorMessage };
-      }
 
-      // Step 4: Verify with server
-      const verifyResponse = await fetch("/api/siwe/verify", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message, signature }),
-      });
+        broadcastSessionChange("signed-in");
 
-      const verifyData = await verifyResponse.json();
+        // Step 6: Send the user back to where the middleware intercepted them
+        const returnTo = getSafeReturnTo(
+          new URLSearchParams(window.location.search).get("returnTo"),
+          window.location.origin,
+        );
+        if (returnTo) {
+          router.push(returnTo);
+        }
 
-      if (!verifyResponse.ok || !verifyData.ok) {
-        const errorMessage = verifyData.error || "Verification failed";
+        return { ok: true, address: verifyData.address };
+      } catch (error: unknown) {
+        console.error("SIWE sign in error:", error);
+        const errorMessage = getErrorMessage(error, "An unexpected error occurred");
+        const errorCode = getErrorCode(error);
         setState(prev => ({
           ...prev,
           isLoading: false,
           error: errorMessage,
+          errorCode,
         }));
-        return { ok: false, error: errorMessage };
+        return { ok: false, error: errorMessage, errorCode };
       }
-
-      // Step 5: Success! Update state
-      setState(prev => ({
-        ...prev,
-        address: verifyData.address,
-        chainId: verifyData.chainId,
-        isSignedIn: true,
-        isLoading: false,
-        error: null,
-        signedInAt: verifyData.signedInAt,
-      }));
-
-      return { ok: true, address: verifyData.address };
-    } catch (error: unknown) {
-      console.error("SIWE sign in error:", error);
-      const errorMessage = getErrorMessage(error, "An unexpected error occurred");
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
-      return { ok: false, error: errorMessage };
-    }
-  }, [isConnected, connectedAddress, chainId, signMessageAsync]);
+    },
+    [isConnected, connectedAddress, chainId, signMessageAsync, router, broadcastSessionChange],
+  );
 
   /**
    * Sign out - destroy the session
    */
   const signOut = useCallback(async () => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    setState(prev => ({ ...prev, isLoading: true, error: null, errorCode: null }));
 
     try {
       const response = await fetch("/api/siwe/session", {
@@ -227,37 +565,433 @@ export function useSiwe() {
       });
 
       if (!response.ok) {
-        throw new Error("Failed to sign out");
+        throw await getResponseError(response, "Failed to sign out");
       }
 
-      setState({
-        address: null,
-        chainId: null,
-        isSignedIn: false,
-        isLoading: false,
-        error: null,
-        siweMessage: null,
-        signedInAt: null,
-      });
+      setState(SIGNED_OUT_STATE);
+      broadcastSessionChange("signed-out");
 
       return { ok: true };
     } catch (error: unknown) {
       console.error("SIWE sign out error:", error);
       const errorMessage = getErrorMessage(error, "Failed to sign out");
+      const errorCode = getErrorCode(error);
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: errorMessage,
+        errorCode,
+      }));
+      return { ok: false, error: errorMessage, errorCode };
+    }
+  }, [broadcastSessionChange]);
+
+  /**
+   * List the active sessions of the signed in wallet
+   * Requires `sessionStore` to be enabled in siwe.config.ts
+   */
+  const listSessions = useCallback(async () => {
+    try {
+      const response = await fetch("/api/siwe/sessions");
+      const data = await response.json();
+
+      if (!response.ok || !data.ok) {
+        throw new SiweRequestError(
+          data.error || "Failed to list sessions",
+          data.errorCode || SiweErrorCode.INTERNAL_ERROR,
+        );
+      }
+
+      return { ok: true, sessions: data.sessions as SiweActiveSession[] };
+    } catch (error: unknown) {
+      console.error("SIWE list sessions error:", error);
+      return {
+        ok: false,
+        error: getErrorMessage(error, "Failed to list sessions"),
+        errorCode: getErrorCode(error),
+        sessions: [],
+      };
+    }
+  }, []);
+
+  /**
+   * Revoke one session of the signed in wallet (e.g. a lost device)
+   * Revoking the current session signs this browser out
+   */
+  const revokeSession = useCallback(
+    async (sessionId: string) => {
+      try {
+        const response = await fetch(`/api/siwe/sessions/${encodeURIComponent(sessionId)}`, {
+          method: "DELETE",
+        });
+        const data = await response.json();
+
+        if (!response.ok || !data.ok) {
+          throw new SiweRequestError(
+            data.error || "Failed to revoke session",
+            data.errorCode || SiweErrorCode.INTERNAL_ERROR,
+          );
+        }
+
+        if (data.isCurrent) {
+          setState(SIGNED_OUT_STATE);
+          broadcastSessionChange("signed-out");
+        }
+
+        return { ok: true };
+      } catch (error: unknown) {
+        console.error("SIWE revoke session error:", error);
+        return { ok: false, error: getErrorMessage(error, "Failed to revoke session"), errorCode: getErrorCode(error) };
+      }
+    },
+    [broadcastSessionChange],
+  );
+
+  /**
+   * Sign out everywhere - revoke every session of the signed in wallet
+   */
+  const revokeAllSessions = useCallback(async () => {
+    setState(prev => ({ ...prev, isLoading: true, error: null, errorCode: null }));
+
+    try {
+      const response = await fetch("/api/siwe/sessions", { method: "DELETE" });
+      const data = await response.json();
+
+      if (!response.ok || !data.ok) {
+        throw new SiweRequestError(
+          data.error || "Failed to revoke sessions",
+          data.errorCode || SiweErrorCode.INTERNAL_ERROR,
+        );
+      }
+
+      setState(SIGNED_OUT_STATE);
+      broadcastSessionChange("signed-out");
+      return { ok: true, revoked: data.revoked as number };
+    } catch (error: unknown) {
+      console.error("SIWE revoke all sessions error:", error);
+      const errorMessage = getErrorMessage(error, "Failed to revoke sessions");
+      const errorCode = getErrorCode(error);
       setState(prev => ({
         ...prev,
         isLoading: false,
         error: errorMessage,
+        errorCode,
       }));
-      return { ok: false, error: errorMessage };
+      return { ok: false, error: errorMessage, errorCode };
     }
+  }, [broadcastSessionChange]);
+
+  /**
+   * Start linking another wallet (requires `accountStore` in siwe.config.ts)
+   * Until linkWallet() or cancelLinking() is called, switching to an unlinked
+   * wallet does not sign out, so the user can select the wallet to link.
+   */
+  const startLinking = useCallback(() => {
+    setState(prev => ({ ...prev, isLinking: true, error: null, errorCode: null }));
   }, []);
 
-  // Check session on mount
+  /**
+   * Stop linking without linking a wallet
+   */
+  const cancelLinking = useCallback(() => {
+    setState(prev => ({ ...prev, isLinking: false }));
+  }, []);
+
+  /**
+   * Ask the connected wallet to sign a message
+   * Wallet errors become USER_REJECTED / SIGNING_FAILED errors.
+   */
+  const signWithWallet = useCallback(
+    async (message: string) => {
+      try {
+        return await signMessageAsync({ message });
+      } catch (signError: unknown) {
+        throw isUserRejection(signError)
+          ? new SiweRequestError("Signature request was rejected", SiweErrorCode.USER_REJECTED)
+          : new SiweRequestError("Failed to sign message", SiweErrorCode.SIGNING_FAILED);
+      }
+    },
+    [signMessageAsync],
+  );
+
+  /**
+   * Link the connected wallet to the signed in user
+   * Asks the connected wallet for a second SIWE signature; the active address is unchanged
+   * (useSiwe switches to the linked wallet while it stays connected).
+   */
+  const linkWallet = useCallback(
+    async (options: Pick<SiweSignInOptions, "merkleProof"> = {}) => {
+      if (!isConnected || !connectedAddress) {
+        setState(prev => ({
+          ...prev,
+          error: "Please connect the wallet to link first",
+          errorCode: SiweErrorCode.WALLET_NOT_CONNECTED,
+        }));
+        return { ok: false, error: "Wallet not connected", errorCode: SiweErrorCode.WALLET_NOT_CONNECTED };
+      }
+
+      setState(prev => ({ ...prev, isLoading: true, error: null, errorCode: null }));
+
+      try {
+        const message = await getMessageToSign(connectedAddress, chainId, {}, "link");
+        const signature = await signWithWallet(message);
+
+        const response = await fetch("/api/siwe/verify", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ message, signature, mode: "link", merkleProof: options.merkleProof }),
+        });
+
+        if (!response.ok) {
+          throw await getResponseError(response, "Failed to link wallet");
+        }
+
+        const data = await response.json();
+        setState(prev => ({
+          ...prev,
+          isLoading: false,
+          isLinking: false,
+          userId: data.userId,
+          linkedAddresses: data.linkedAddresses,
+        }));
+        broadcastSessionChange("session-updated");
+
+        return { ok: true, linkedAddresses: data.linkedAddresses as Address[] };
+      } catch (error: unknown) {
+        console.error("SIWE link wallet error:", error);
+        const errorMessage = getErrorMessage(error, "Failed to link wallet");
+        const errorCode = getErrorCode(error);
+        setState(prev => ({
+          ...prev,
+          isLoading: false,
+          error: errorMessage,
+          errorCode,
+        }));
+        return { ok: false, error: errorMessage, errorCode };
+      }
+    },
+    [isConnected, connectedAddress, chainId, signWithWallet, broadcastSessionChange],
+  );
+
+  /**
+   * Move the session to the wallet's current network
+   * With `chainSwitchPolicy: "update-silently"`, tries PATCH /api/siwe/session first; otherwise
+   * (and for smart contract accounts, or with `reSign: true`) signs a new message for the network.
+   * Roles are resolved for the new chain.
+   */
+  const updateChain = useCallback(
+    async (options: { reSign?: boolean } = {}) => {
+      if (!isConnected || !connectedAddress) {
+        setState(prev => ({
+          ...prev,
+          error: "Please connect your wallet first",
+          errorCode: SiweErrorCode.WALLET_NOT_CONNECTED,
+        }));
+        return { ok: false, error: "Wallet not connected", errorCode: SiweErrorCode.WALLET_NOT_CONNECTED };
+      }
+
+      setState(prev => ({ ...prev, isLoading: true, error: null, errorCode: null }));
+
+      try {
+        let response: Response | null = null;
+
+        if (!options.reSign && siweConfig.chainSwitchPolicy === "update-silently") {
+          response = await fetch("/api/siwe/session", {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ chainId }),
+          });
+          if (!response.ok) {
+            const error = await getResponseError(response, "Failed to switch network");
+            if (error.errorCode !== SiweErrorCode.SIGNATURE_REQUIRED) throw error;
+            response = null;
+          }
+        }
+
+        if (!response) {
+          const message = await getMessageToSign(connectedAddress, chainId, {}, "chain");
+          const signature = await signWithWallet(message);
+          response = await fetch("/api/siwe/verify", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ message, signature, mode: "chain" }),
+          });
+          if (!response.ok) {
+            throw await getResponseError(response, "Failed to switch network");
+          }
+        }
+
+        const data = await response.json();
+        setState(prev => ({
+          ...prev,
+          isLoading: false,
+          chainId: data.chainId,
+          roles: data.roles || [],
+        }));
+        broadcastSessionChange("session-updated");
+
+        return { ok: true, chainId: data.chainId as number };
+      } catch (error: unknown) {
+        console.error("SIWE update chain error:", error);
+        const errorMessage = getErrorMessage(error, "Failed to switch network");
+        const errorCode = getErrorCode(error);
+        setState(prev => ({
+          ...prev,
+          isLoading: false,
+          error: errorMessage,
+          errorCode,
+        }));
+        return { ok: false, error: errorMessage, errorCode };
+      }
+    },
+    [isConnected, connectedAddress, chainId, signWithWallet, broadcastSessionChange],
+  );
+
+  /**
+   * Make another linked wallet the active address, without signing again
+   * (roles and ENS profile are resolved for the new address; the access lists are checked again,
+   * so wallets on a Merkle allow-list pass their `merkleProof`)
+   */
+  const switchAccount = useCallback(
+    async (address: Address, options: Pick<SiweSignInOptions, "merkleProof"> = {}) => {
+      try {
+        const response = await fetch("/api/siwe/session", {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ address, merkleProof: options.merkleProof }),
+        });
+
+        if (!response.ok) {
+          throw await getResponseError(response, "Failed to switch account");
+        }
+
+        const data = await response.json();
+        setState(prev => ({
+          ...prev,
+          address: data.address,
+          roles: data.roles || [],
+          ensName: data.ensName || null,
+          ensAvatar: data.ensAvatar || null,
+          linkedAddresses: data.linkedAddresses || [],
+        }));
+        broadcastSessionChange("session-updated");
+
+        return { ok: true, address: data.address as Address };
+      } catch (error: unknown) {
+        console.error("SIWE switch account error:", error);
+        const errorMessage = getErrorMessage(error, "Failed to switch account");
+        const errorCode = getErrorCode(error);
+        setState(prev => ({ ...prev, error: errorMessage, errorCode }));
+        return { ok: false, error: errorMessage, errorCode };
+      }
+    },
+    [broadcastSessionChange],
+  );
+
+  /**
+   * Unlink a wallet from the signed in user (not the active one)
+   */
+  const unlinkWallet = useCallback(
+    async (address: Address) => {
+      try {
+        const response = await fetch(`/api/siwe/accounts/${address}`, { method: "DELETE" });
+
+        if (!response.ok) {
+          throw await getResponseError(response, "Failed to unlink wallet");
+        }
+
+        const data = await response.json();
+        setState(prev => ({ ...prev, linkedAddresses: data.linkedAddresses }));
+        broadcastSessionChange("session-updated");
+
+        return { ok: true };
+      } catch (error: unknown) {
+        console.error("SIWE unlink wallet error:", error);
+        return { ok: false, error: getErrorMessage(error, "Failed to unlink wallet"), errorCode: getErrorCode(error) };
+      }
+    },
+    [broadcastSessionChange],
+  );
+
+  // Whether the session was read on the server
+  const isHydrated = useRef(initialSession !== undefined);
+
+  // Check session on mount (hydrated sessions are revalidated on focus / interval instead)
   useEffect(() => {
-    checkSession();
+    if (!isHydrated.current) {
+      checkSession();
+    }
   }, [checkSession]);
 
+  // Follow sign ins and sign outs of other tabs
+  useEffect(() => {
+    if (!siweConfig.sessionSync.crossTab) return;
+
+    const onSyncEvent = (event: SiweSyncEvent) => {
+      if (event === "signed-out") {
+        setState(SIGNED_OUT_STATE);
+      } else {
+        revalidateSession(true);
+      }
+    };
+
+    if (typeof BroadcastChannel !== "undefined") {
+      const channel = new BroadcastChannel(SYNC_CHANNEL);
+      channel.onmessage = (message: MessageEvent<SiweSyncEvent>) => onSyncEvent(message.data);
+      syncChannel.current = channel;
+      return () => {
+        channel.close();
+        syncChannel.current = null;
+      };
+    }
+
+    const onStorage = (storageEvent: StorageEvent) => {
+      if (storageEvent.key !== SYNC_CHANNEL || !storageEvent.newValue) return;
+      try {
+        onSyncEvent(JSON.parse(storageEvent.newValue).event);
+      } catch {
+        // Not written by useSiwe
+      }
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [revalidateSession]);
+
+  // Revalidate when the user comes back to the tab, and periodically while it is visible
+  useEffect(() => {
+    const { revalidateOnFocus, revalidateIntervalSeconds } = siweConfig.sessionSync;
+
+    const onFocus = () => {
+      if (document.visibilityState === "visible") revalidateSession();
+    };
+    if (revalidateOnFocus) {
+      window.addEventListener("focus", onFocus);
+      document.addEventListener("visibilitychange", onFocus);
+    }
+
+    const interval =
+      revalidateIntervalSeconds > 0
+        ? setInterval(() => {
+            if (document.visibilityState === "visible") revalidateSession(true);
+          }, revalidateIntervalSeconds * 1000)
+        : undefined;
+
+    return () => {
+      window.removeEventListener("focus", onFocus);
+      document.removeEventListener("visibilitychange", onFocus);
+      clearInterval(interval);
+    };
+  }, [revalidateSession]);
+
+  // Revalidate when the session expires, so the tab signs out on time
+  useEffect(() => {
+    if (!state.isSignedIn || !state.signedInAt) return;
+
+    const expiresAt = getSessionExpiresAt(state.signedInAt, state.lastSeenAt ?? state.signedInAt);
+    const timeout = setTimeout(() => revalidateSession(true), Math.min(expiresAt - Date.now() + 1000, MAX_TIMEOUT_MS));
+    return () => clearTimeout(timeout);
+  }, [state.isSignedIn, state.signedInAt, state.lastSeenAt, revalidateSession]);
+
   // Track if we've seen the wallet connected (to avoid false auto-logout on page load)
   const hasSeenWalletConnected = useRef(false);
 
@@ -268,13 +1002,28 @@ export function useSiwe() {
     }
   }, [isConnected]);
 
+  // Address a switch to a linked wallet is in progress for (avoids duplicate requests)
+  const switchingTo = useRef<Address | null>(null);
+
   // Auto-logout if wallet disconnects or address changes
+  // (switching to a linked wallet switches the active address instead)
   useEffect(() => {
     // Address mismatch check - only if both addresses are available
     if (state.isSignedIn && connectedAddress && state.address) {
       if (connectedAddress.toLowerCase() !== state.address.toLowerCase()) {
-        console.log("Wallet address changed, signing out...");
-        signOut();
+        const isLinked = state.linkedAddresses.some(linked => linked.toLowerCase() === connectedAddress.toLowerCase());
+        if (isLinked) {
+          if (switchingTo.current !== connectedAddress) {
+            console.log("Switched to a linked wallet, switching account...");
+            switchingTo.current = connectedAddress;
+            switchAccount(connectedAddress).finally(() => {
+              switchingTo.current = null;
+            });
+          }
+        } else if (!state.isLinking) {
+          console.log("Wallet address changed, signing out...");
+          signOut();
+        }
       }
     }
 
@@ -284,7 +1033,151 @@ export function useSiwe() {
       console.log("Wallet disconnected, signing out...");
       signOut();
     }
-  }, [isConnected, connectedAddress, state.isSignedIn, state.address, signOut]);
+  }, [
+    isConnected,
+    connectedAddress,
+    state.isSignedIn,
+    state.address,
+    state.linkedAddresses,
+    state.isLinking,
+    signOut,
+    switchAccount,
+  ]);
+
+  // Network the session is being moved to (each network change is handled once)
+  const chainSyncTarget = useRef<number | null>(null);
+
+  // Apply `chainSwitchPolicy` when the wallet's network differs from the session's
+  useEffect(() => {
+    if (!state.isSignedIn || !isConnected || !state.chainId || chainId === state.chainId) {
+      chainSyncTarget.current = null;
+      return;
+    }
+    if (chainSyncTarget.current === chainId) return;
+    chainSyncTarget.current = chainId;
+
+    switch (siweConfig.chainSwitchPolicy) {
+      case "sign-out":
+        console.log("Wallet network changed, signing out...");
+        signOut();
+        break;
+      case "update-silently":
+      case "re-sign":
+        // Don't prompt for networks the server would refuse anyway
+        if (!isChainAllowed(chainId)) {
+          setState(prev => ({
+            ...prev,
+            error: `Chain not supported: ${chainId}. Please switch to a supported network.`,
+            errorCode: SiweErrorCode.CHAIN_NOT_SUPPORTED,
+          }));
+          break;
+        }
+        updateChain({ reSign: siweConfig.chainSwitchPolicy === "re-sign" });
+        break;
+    }
+  }, [chainId, isConnected, state.isSignedIn, state.chainId, setState, signOut, updateChain]);
+
+  const actions = useMemo(
+    () => ({
+      signIn,
+      signOut,
+      checkSession,
+      listSessions,
+      revokeSession,
+      revokeAllSessions,
+      startLinking,
+      cancelLinking,
+      linkWallet,
+      switchAccount,
+      unlinkWallet,
+      updateChain,
+    }),
+    [
+      signIn,
+      signOut,
+      checkSession,
+      listSessions,
+      revokeSession,
+      revokeAllSessions,
+      startLinking,
+      cancelLinking,
+      linkWallet,
+      switchAccount,
+      unlinkWallet,
+      updateChain,
+    ],
+  );
+
+  return useMemo(() => ({ store, actions }), [store, actions]);
+}
+
+/**
+ * Shared SIWE state and actions, provided by SiweProvider (components/SiweProvider.tsx)
+ */
+export const SiweContext = createContext<ReturnType<typeof useSiweController> | null>(null);
+
+function useSiweContext() {
+  const context = useContext(SiweContext);
+  if (!context) {
+    throw new Error("SIWE hooks must be used within a SiweProvider (components/SiweProvider.tsx)");
+  }
+  return context;
+}
+
+/**
+ * Subscribe to part of the SIWE state (re-renders only when the selected value changes)
+ */
+function useSiweSelector<T>(selector: (state: SiweState) => T): T {
+  const { store } = useSiweContext();
+  const getSnapshot = () => selector(store.getState());
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+}
+
+/**
+ * useSiwe - React hook for Sign in with Ethereum authentication
+ *
+ * Reads the session shared by SiweProvider (one session check and one set of effects per app).
+ * Components that only need the address or the status should use useSiweAddress / useSiweStatus.
+ *
+ * Provides a complete SIWE flow:
+ * - Automatic session checking on mount (skipped when SiweProvider was hydrated on the server)
+ * - signIn({ resources?, statement?, capabilities?, merkleProof? }) - Generate nonce, create message, sign, and verify
+ *   (then navigates to `?returnTo=` if the page was opened by the SIWE middleware)
+ * - signOut() - Destroy the session
+ * - listSessions() / revokeSession() / revokeAllSessions() - Manage sessions (requires a session store)
+ * - startLinking() / linkWallet() / switchAccount() / unlinkWallet() - Linked wallets (requires an account store)
+ * - updateChain() - Move the session to the wallet's current network (applied automatically
+ *   according to `chainSwitchPolicy` in siwe.config.ts)
+ * - data - App data attached by the onSignIn hook, typed with `useSiwe<MyAppData>()`
+ *   (defaults to SiweAppData from siwe.hooks.ts)
+ * - Stays in sync across tabs and revalidates on focus, on an interval and at expiry
+ *   (see `sessionSync` in siwe.config.ts)
+ *
+ * @example
+ * ```tsx
+ * const { isSignedIn, address, signIn, signOut, isLoading, error, errorCode } = useSiwe();
+ *
+ * if (!isSignedIn) {
+ *   return <button onClick={() => signIn()}>Sign in with Ethereum</button>;
+ * }
+ *
+ * return (
+ *   <div>
+ *     <p>Signed in as {address}</p>
+ *     <button onClick={signOut}>Sign Out</button>
+ *   </div>
+ * );
+ * ```
+ */
+export function useSiwe<TData extends object = SiweAppData>() {
+  const { store, actions } = useSiweContext();
+  const state = useSyncExternalStore(store.subscribe, store.getState, store.getState) as SiweState<TData>;
+  const { address: connectedAddress, isConnected } = useAccount();
+
+  /**
+   * Check whether the session was granted a token-gated role
+   */
+  const hasRole = useCallback((role: string) => state.roles.includes(role), [state.roles]);
 
   return {
     // State
@@ -292,9 +1185,31 @@ export function useSiwe() {
     // Computed
     isWalletConnected: isConnected,
     connectedAddress,
+    hasRole,
     // Actions
-    signIn,
-    signOut,
-    checkSession,
+    ...actions,
   };
 }
+
+/**
+ * useSiweAddress - The signed in address (null when signed out)
+ * Only re-renders when the address changes.
+ */
+export function useSiweAddress(): Address | null {
+  return useSiweSelector(state => state.address);
+}
+
+/**
+ * Sign-in status ("loading" until the session has been checked)
+ */
+export type SiweStatus = "loading" | "signed-in" | "signed-out";
+
+/**
+ * useSiweStatus - Whether the user is signed in, without subscribing to the rest of the session
+ * Only re-renders when the status changes.
+ */
+export function useSiweStatus(): SiweStatus {
+  return useSiweSelector(state =>
+    !state.isSessionChecked ? "loading" : state.isSignedIn ? "signed-in" : "signed-out",
+  );
+}
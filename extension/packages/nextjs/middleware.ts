@@ -0,0 +1,64 @@
+/**
+ * SIWE Middleware
+ *
+ * Protects the paths listed in `protectedPaths` (utils/siwe.config.ts):
+ * - Pages: redirect unauthenticated users to `signInPath?returnTo=<original path>`
+ * - API routes (/api/*): respond with 401 JSON
+ *
+ * Runs on the Edge runtime, so only the iron-session cookie is checked here
+ * (no session store lookups). Use withSiweAuth / requireSiweSession
+ * (utils/siwe.server.ts) for checks that need more than a valid cookie.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { getIronSession } from "iron-session";
+import {
+  SiweErrorCode,
+  SiweSessionData,
+  UNAUTHORIZED_ERROR,
+  isAuthenticated,
+  isProtectedPath,
+  sessionOptions,
+} from "~~/utils/siwe";
+import siweConfig from "~~/utils/siwe.config";
+
+export async function middleware(request: NextRequest) {
+  // Nothing to protect (the default): skip all work, including the cookie unseal
+  if (siweConfig.protectedPaths.length === 0) {
+    return NextResponse.next();
+  }
+
+  const { pathname, search } = request.nextUrl;
+
+  // Never gate the sign in page or the SIWE API itself (would cause redirect loops).
+  // The session cookie is only read on protected paths.
+  const isSignInRoute = isProtectedPath(pathname, [siweConfig.signInPath, "/api/siwe"]);
+
+  if (isSignInRoute || !isProtectedPath(pathname)) {
+    return NextResponse.next();
+  }
+
+  const response = NextResponse.next();
+  const session = await getIronSession<SiweSessionData>(request, response, sessionOptions);
+
+  if (isAuthenticated(session)) {
+    return response;
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json(
+      { ok: false, error: UNAUTHORIZED_ERROR, errorCode: SiweErrorCode.UNAUTHORIZED },
+      { status: 401 },
+    );
+  }
+
+  const signInUrl = new URL(siweConfig.signInPath, request.url);
+  signInUrl.searchParams.set("returnTo", `${pathname}${search}`);
+  return NextResponse.redirect(signInUrl);
+}
+
+export const config = {
+  // Run on everything except Next.js internals, static files and the SIWE API (never protected).
+  // The matcher must be static, so which paths are actually protected is decided by `protectedPaths` above.
+  // Narrow it to your protected paths (e.g. ["/dashboard/:path*"]) to skip the middleware elsewhere.
+  matcher: ["/((?!_next/static|_next/image|api/siwe(?:/|$)|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)"],
+};
@@ -0,0 +1,96 @@
+import { MerkleAddressList, StaticAddressList, checkAddressAccess, verifyMerkleProof } from "./siwe.accessList";
+import { Address, Hex } from "viem";
+import { describe, expect, it, vi } from "vitest";
+
+const ALICE: Address = "0x1111111111111111111111111111111111111111";
+const BOB: Address = "0x2222222222222222222222222222222222222222";
+const CAROL: Address = "0x3333333333333333333333333333333333333333";
+const MALLORY: Address = "0x4444444444444444444444444444444444444444";
+
+/**
+ * Built with @openzeppelin/merkle-tree:
+ * StandardMerkleTree.of([[ALICE], [BOB], [CAROL]], ["address"])
+ */
+const ROOT: Hex = "0xae6afff7b7c4d883d5efd44afa0b98e80317697e8984b4c2de7c54b49c1c4dd4";
+const PROOFS: Record<Address, Hex[]> = {
+  [ALICE]: [
+    "0x708e7cb9a75ffb24191120fba1c3001faa9078147150c6f2747569edbadee751",
+    "0xbd164a4590db938a0b098da1b25cf37b155f857b38c37c016ad5b8f8fce80192",
+  ],
+  [BOB]: [
+    "0xa7409058568815d08a7ad3c7d4fd44cf1dec90c620cb31e55ad24c654f7ba34f",
+    "0xbd164a4590db938a0b098da1b25cf37b155f857b38c37c016ad5b8f8fce80192",
+  ],
+  [CAROL]: ["0xc6ce8ae383124b268df66d71f0af2206e6dafb13eba0b03806eed8a4e7991329"],
+};
+
+const MERKLE: MerkleAddressList = { type: "merkle", root: ROOT };
+const DENY_ALICE: StaticAddressList = { type: "static", addresses: [ALICE] };
+
+describe("verifyMerkleProof", () => {
+  it("accepts proofs from an OpenZeppelin StandardMerkleTree", () => {
+    for (const address of [ALICE, BOB, CAROL]) {
+      expect(verifyMerkleProof(address, PROOFS[address], ROOT)).toBe(true);
+    }
+  });
+
+  it("ignores the case of the root and proof", () => {
+    expect(verifyMerkleProof(ALICE, PROOFS[ALICE], ROOT.toUpperCase().replace("0X", "0x") as Hex)).toBe(true);
+    expect(verifyMerkleProof(CAROL, [PROOFS[CAROL][0].toUpperCase().replace("0X", "0x") as Hex], ROOT)).toBe(true);
+  });
+
+  it("rejects another address's proof", () => {
+    expect(verifyMerkleProof(MALLORY, PROOFS[ALICE], ROOT)).toBe(false);
+    expect(verifyMerkleProof(BOB, PROOFS[ALICE], ROOT)).toBe(false);
+  });
+
+  it("rejects incomplete or empty proofs", () => {
+    expect(verifyMerkleProof(ALICE, PROOFS[ALICE].slice(0, 1), ROOT)).toBe(false);
+    expect(verifyMerkleProof(ALICE, [], ROOT)).toBe(false);
+  });
+});
+
+describe("checkAddressAccess", () => {
+  it("permits everyone when no lists are configured", async () => {
+    expect(await checkAddressAccess(MALLORY, {}, [], [])).toEqual({ permitted: true });
+  });
+
+  it("permits addresses with a valid Merkle proof", async () => {
+    expect(await checkAddressAccess(BOB, { merkleProof: PROOFS[BOB] }, [MERKLE], [])).toEqual({ permitted: true });
+  });
+
+  it("asks for a proof when a Merkle allow-list is configured and none was sent", async () => {
+    const result = await checkAddressAccess(BOB, {}, [MERKLE], []);
+    expect(result).toEqual({ permitted: false, error: expect.stringContaining("merkleProof") });
+  });
+
+  it("rejects invalid proofs", async () => {
+    const result = await checkAddressAccess(MALLORY, { merkleProof: PROOFS[ALICE] }, [MERKLE], []);
+    expect(result).toEqual({ permitted: false, error: "This address is not on the allow-list." });
+  });
+
+  it("matches static lists regardless of address case", async () => {
+    const list: StaticAddressList = { type: "static", addresses: ["0xAbCdEf0000000000000000000000000000000001"] };
+    const result = await checkAddressAccess("0xabcdef0000000000000000000000000000000001", {}, [list], []);
+    expect(result).toEqual({ permitted: true });
+  });
+
+  it("permits addresses on any of several allow-lists", async () => {
+    const result = await checkAddressAccess(MALLORY, {}, [MERKLE, { type: "static", addresses: [MALLORY] }], []);
+    expect(result).toEqual({ permitted: true });
+  });
+
+  it("checks deny-lists before allow-lists", async () => {
+    const result = await checkAddressAccess(ALICE, { merkleProof: PROOFS[ALICE] }, [MERKLE], [DENY_ALICE]);
+    expect(result).toEqual({ permitted: false, error: "This address is not permitted to sign in." });
+  });
+
+  it("denies access when a list fails to load", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const failing = { type: "loader" as const, load: () => Promise.reject(new Error("database down")) };
+
+    const result = await checkAddressAccess(BOB, {}, [], [failing]);
+    expect(result).toEqual({ permitted: false, error: expect.stringContaining("Could not check") });
+    vi.restoreAllMocks();
+  });
+});
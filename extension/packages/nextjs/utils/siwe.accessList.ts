@@ -0,0 +1,204 @@
+/**
+ * SIWE Address Allow-List / Deny-List
+ *
+ * Restricts which addresses may sign in (e.g. private betas).
+ * Lists are declared in `siweAccessLists` below and come in three kinds:
+ * - static: a fixed array of addresses
+ * - loader: a function returning the addresses (runs on the server, cached for `ttlSeconds`)
+ * - merkle: a Merkle root (allow-list only). The client proves membership by sending
+ *   the proof as `merkleProof` with the signature. Leaves follow OpenZeppelin's
+ *   StandardMerkleTree for `["address"]`, so trees built with @openzeppelin/merkle-tree work as is.
+ *
+ * An address is permitted when it is on none of the deny-lists and, if any
+ * allow-list is configured, on at least one of them. Lists that fail to load
+ * deny access (fail closed).
+ *
+ * Edit `siweAccessLists` below like siwe.config.ts. The lists live here rather than in
+ * siwe.config.ts, which is also bundled for the browser: address lists would be shipped
+ * to every visitor, and loaders may import server-only code (database clients, secrets).
+ *
+ * Used by:
+ * - POST /api/siwe/verify
+ * - PATCH /api/siwe/session (switching to a linked wallet)
+ */
+import { Address, Hex, concat, encodeAbiParameters, isAddressEqual, keccak256 } from "viem";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A fixed list of addresses
+ */
+export interface StaticAddressList {
+  type: "static";
+  addresses: readonly Address[];
+}
+
+/**
+ * Addresses loaded on demand, e.g. from a database or a JSON file
+ */
+export interface LoaderAddressList {
+  type: "loader";
+  load: () => Promise<readonly Address[]>;
+  /** How long loaded addresses are reused, in seconds @default 60 */
+  ttlSeconds?: number;
+}
+
+/**
+ * Addresses committed to by a Merkle root (the client submits the proof)
+ */
+export interface MerkleAddressList {
+  type: "merkle";
+  /** Root of an OpenZeppelin StandardMerkleTree with leaf encoding ["address"] */
+  root: Hex;
+}
+
+export type SiweAllowListSource = StaticAddressList | LoaderAddressList | MerkleAddressList;
+
+/** Deny-lists cannot be Merkle roots: nobody submits a proof that they are denied */
+export type SiweDenyListSource = StaticAddressList | LoaderAddressList;
+
+/**
+ * Proof material submitted with the signature
+ */
+export interface AddressAccessProof {
+  /** Merkle proof for `merkle` allow-lists */
+  merkleProof?: readonly Hex[];
+}
+
+export type AddressAccessResult = { permitted: true } | { permitted: false; error: string };
+
+/**
+ * The allow-lists and deny-lists checked at sign in
+ */
+export interface SiweAccessLists {
+  /**
+   * Addresses allowed to sign in. When not empty, the address must be on at least one list.
+   * Merkle proofs are sent by the client (`signIn({ merkleProof })`).
+   */
+  allowList: SiweAllowListSource[];
+  /** Addresses that may never sign in (checked before `allowList`) */
+  denyList: SiweDenyListSource[];
+}
+
+// =============================================================================
+// LISTS
+// =============================================================================
+
+/**
+ * Your app's access lists (both empty: everyone may sign in)
+ *
+ * @example
+ * ```ts
+ * export const siweAccessLists: SiweAccessLists = {
+ *   allowList: [
+ *     { type: "static", addresses: ["0x..."] },
+ *     { type: "loader", load: () => db.betaTesters.addresses(), ttlSeconds: 300 },
+ *     { type: "merkle", root: "0x..." },
+ *   ],
+ *   denyList: [],
+ * };
+ * ```
+ */
+export const siweAccessLists: SiweAccessLists = {
+  allowList: [],
+  denyList: [],
+};
+
+// =============================================================================
+// LIST MEMBERSHIP
+// =============================================================================
+
+const loaderCache = new WeakMap<LoaderAddressList, { addresses: Promise<Set<string>>; expiresAt: number }>();
+
+/**
+ * Load (or reuse) the addresses of a loader list, lowercased
+ */
+function loadAddresses(list: LoaderAddressList): Promise<Set<string>> {
+  const cached = loaderCache.get(list);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.addresses;
+  }
+
+  const addresses = list.load().then(loaded => new Set(loaded.map(address => address.toLowerCase())));
+  loaderCache.set(list, { addresses, expiresAt: Date.now() + (list.ttlSeconds ?? 60) * 1000 });
+  // Don't cache failures
+  addresses.catch(() => loaderCache.delete(list));
+
+  return addresses;
+}
+
+/**
+ * Check a Merkle proof against a StandardMerkleTree root (sorted pair hashing)
+ */
+export function verifyMerkleProof(address: Address, proof: readonly Hex[], root: Hex): boolean {
+  const leaf = keccak256(keccak256(encodeAbiParameters([{ type: "address" }], [address])));
+
+  const computedRoot = proof.reduce<Hex>((hash, sibling) => {
+    const [a, b] = [hash.toLowerCase(), sibling.toLowerCase()] as Hex[];
+    return keccak256(a < b ? concat([a, b]) : concat([b, a]));
+  }, leaf);
+
+  return computedRoot === root.toLowerCase();
+}
+
+/**
+ * Check whether an address is on a list
+ */
+async function isOnList(list: SiweAllowListSource, address: Address, proof: AddressAccessProof): Promise<boolean> {
+  switch (list.type) {
+    case "static":
+      return list.addresses.some(listed => isAddressEqual(listed, address));
+    case "loader":
+      return (await loadAddresses(list)).has(address.toLowerCase());
+    case "merkle":
+      return !!proof.merkleProof && verifyMerkleProof(address, proof.merkleProof, list.root);
+  }
+}
+
+// =============================================================================
+// ACCESS CHECK
+// =============================================================================
+
+/**
+ * Check whether an address may sign in (`siweAccessLists`)
+ *
+ * @param address - The address that signed the message
+ * @param proof - Proofs submitted with the signature (for Merkle allow-lists)
+ */
+export async function checkAddressAccess(
+  address: Address,
+  proof: AddressAccessProof = {},
+  allowList: readonly SiweAllowListSource[] = siweAccessLists.allowList,
+  denyList: readonly SiweDenyListSource[] = siweAccessLists.denyList,
+): Promise<AddressAccessResult> {
+  try {
+    for (const list of denyList) {
+      if (await isOnList(list, address, proof)) {
+        return { permitted: false, error: "This address is not permitted to sign in." };
+      }
+    }
+
+    if (allowList.length === 0) {
+      return { permitted: true };
+    }
+
+    for (const list of allowList) {
+      if (await isOnList(list, address, proof)) {
+        return { permitted: true };
+      }
+    }
+
+    const needsProof = !proof.merkleProof && allowList.some(list => list.type === "merkle");
+    return {
+      permitted: false,
+      error: needsProof
+        ? "This address is not on the allow-list. If you have a Merkle proof, submit it as `merkleProof`."
+        : "This address is not on the allow-list.",
+    };
+  } catch (error) {
+    console.error("Failed to load address list:", error);
+    return { permitted: false, error: "Could not check the address against the access lists. Please try again." };
+  }
+}
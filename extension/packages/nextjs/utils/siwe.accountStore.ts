@@ -0,0 +1,209 @@
+/**
+ * SIWE Account Store
+ *
+ * Optional registry of linked wallets, so one user can sign in with several
+ * addresses (e.g. a hot and a cold wallet). Every address belongs to at most
+ * one user; a user is identified by a stable random user id.
+ *
+ * - Signing in with an unknown address creates a new user
+ * - Signed in users link another wallet by signing a second SIWE message
+ *   (POST /api/siwe/verify with `mode: "link"`)
+ * - The session can then switch its active address between linked wallets
+ *   without signing again (PATCH /api/siwe/session)
+ *
+ * Used by:
+ * - POST /api/siwe/verify (resolve the user, link)
+ * - /api/siwe/session (switch) and /api/siwe/accounts (list / unlink)
+ * - getAuthenticatedSiweSession (utils/siwe.server.ts)
+ *
+ * Built-in stores are selected with `accountStore` in siwe.config.ts.
+ * For multi-instance deployments, implement AccountStore on top of a shared
+ * database and register it with setAccountStore().
+ */
+import { SiweLinkedAccount, SiweSessionData } from "./siwe";
+import siweConfig from "./siwe.config";
+import { getGlobalSingleton, setGlobalSingleton } from "./siwe.singletons";
+import { createJsonFile } from "./siwe.storage";
+import { Address, isAddressEqual } from "viem";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Storage backend for linked accounts
+ */
+export interface AccountStore {
+  /** Get the id of the user an address is linked to */
+  getUserId(address: Address): Promise<string | null>;
+  /** List the accounts linked to a user (oldest first) */
+  listAccounts(userId: string): Promise<SiweLinkedAccount[]>;
+  /**
+   * Link an address to a user (no-op if it is already linked to that user)
+   * Must be atomic. Resolves with false if the address belongs to another user.
+   */
+  link(userId: string, account: SiweLinkedAccount): Promise<boolean>;
+  /** Unlink an address. Resolves with false if it was not linked to that user */
+  unlink(userId: string, address: Address): Promise<boolean>;
+}
+
+/**
+ * A user with their linked addresses
+ */
+export interface SiweUserAccounts {
+  userId: string;
+  addresses: Address[];
+}
+
+type AccountRecords = Record<string, SiweLinkedAccount[]>;
+
+// =============================================================================
+// BUILT-IN STORES
+// =============================================================================
+
+/**
+ * Account store operations on a plain userId => accounts map
+ * Shared by the memory and file stores
+ */
+function createAccountOperations(records: AccountRecords) {
+  const getUserId = (address: Address) =>
+    Object.keys(records).find(userId => records[userId].some(account => isAddressEqual(account.address, address))) ??
+    null;
+
+  return {
+    getUserId,
+    listAccounts: (userId: string) => [...(records[userId] ?? [])],
+    link: (userId: string, account: SiweLinkedAccount) => {
+      const ownerId = getUserId(account.address);
+      if (ownerId) return ownerId === userId;
+
+      records[userId] = [...(records[userId] ?? []), account];
+      return true;
+    },
+    unlink: (userId: string, address: Address) => {
+      const accounts = records[userId] ?? [];
+      const remaining = accounts.filter(account => !isAddressEqual(account.address, address));
+      if (remaining.length === accounts.length) return false;
+
+      if (remaining.length > 0) {
+        records[userId] = remaining;
+      } else {
+        delete records[userId];
+      }
+      return true;
+    },
+  };
+}
+
+/**
+ * In-memory account store (per server process)
+ */
+export function createMemoryAccountStore(): AccountStore {
+  const operations = createAccountOperations({});
+
+  return {
+    async getUserId(address) {
+      return operations.getUserId(address);
+    },
+    async listAccounts(userId) {
+      return operations.listAccounts(userId);
+    },
+    async link(userId, account) {
+      return operations.link(userId, account);
+    },
+    async unlink(userId, address) {
+      return operations.unlink(userId, address);
+    },
+  };
+}
+
+/**
+ * JSON file account store (survives server restarts)
+ */
+export function createFileAccountStore(fileName = "accounts.json"): AccountStore {
+  const file = createJsonFile<AccountRecords>(fileName, () => ({}));
+
+  return {
+    async getUserId(address) {
+      return createAccountOperations(await file.read()).getUserId(address);
+    },
+    async listAccounts(userId) {
+      return createAccountOperations(await file.read()).listAccounts(userId);
+    },
+    async link(userId, account) {
+      return file.update(records => createAccountOperations(records).link(userId, account));
+    },
+    async unlink(userId, address) {
+      return file.update(records => createAccountOperations(records).unlink(userId, address));
+    },
+  };
+}
+
+// =============================================================================
+// STORE REGISTRY
+// =============================================================================
+
+/**
+ * Get the account store configured in siwe.config.ts (or registered via setAccountStore)
+ * @returns The store, or null if account linking is disabled
+ */
+export function getAccountStore(): AccountStore | null {
+  return getGlobalSingleton<AccountStore | null>("accountStore", () => {
+    switch (siweConfig.accountStore) {
+      case "memory":
+        return createMemoryAccountStore();
+      case "file":
+        return createFileAccountStore();
+      default:
+        return null;
+    }
+  });
+}
+
+/**
+ * Replace the account store with a custom implementation
+ * Call once at startup, e.g. from instrumentation.ts
+ */
+export function setAccountStore(store: AccountStore) {
+  setGlobalSingleton("accountStore", store);
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Check that the active address of a session is still linked to its user
+ * A wallet unlinked since sign in (e.g. a lost key) must not keep a session
+ * that can switch to the user's other wallets.
+ * @returns true if account linking is disabled or the session has no user
+ */
+export async function isSessionAccountLinked(session: SiweSessionData): Promise<boolean> {
+  const store = getAccountStore();
+  if (!store || !session.userId || !session.address) return true;
+
+  return (await store.listAccounts(session.userId)).some(account => isAddressEqual(account.address, session.address!));
+}
+
+/**
+ * Get the user an address belongs to, creating a new user on first sign in
+ * @returns The user and their linked addresses, or null if account linking is disabled
+ */
+export async function resolveUserAccounts(address: Address, chainId: number): Promise<SiweUserAccounts | null> {
+  const store = getAccountStore();
+  if (!store) return null;
+
+  let userId = await store.getUserId(address);
+  if (!userId) {
+    const newUserId = crypto.randomUUID();
+    // A concurrent first sign in may have created the user in the meantime
+    userId = (await store.link(newUserId, { address, chainId, linkedAt: Date.now() }))
+      ? newUserId
+      : await store.getUserId(address);
+  }
+  if (!userId) {
+    throw new Error(`Failed to resolve the user of ${address}`);
+  }
+
+  return { userId, addresses: (await store.listAccounts(userId)).map(account => account.address) };
+}
@@ -0,0 +1,170 @@
+/**
+ * SIWE Audit Log
+ *
+ * Emits a typed event for every authentication step, so sign ins, failures and
+ * sign outs can be reviewed later (security investigations, compliance, metrics).
+ *
+ * Events:
+ * - nonce_issued: GET /api/siwe/nonce, POST /api/siwe/message
+ * - verify_success / verify_failure (with errorCode): POST /api/siwe/verify
+ * - session_destroyed: sign out, session revoked, "sign out everywhere"
+ * - session_expired: an expired session was presented to GET /api/siwe/session
+ * - account_linked / account_unlinked / account_switched: linked wallets (accountStore)
+ * - chain_switched: the session moved to another chain (chainSwitchPolicy)
+ *
+ * Sinks are configured with `audit` in siwe.config.ts:
+ * - "console": one log line per event
+ * - "file": JSON lines file (`audit.jsonl` in `storageDir`)
+ * - webhookUrl: POST each event as JSON
+ * Register custom sinks (e.g. a database) with addAuditSink().
+ *
+ * Sinks run after the response is sent (next/server `after()`, which keeps serverless
+ * functions alive until delivery finishes) and never fail the request: errors are logged and ignored.
+ */
+import { after } from "next/server";
+import { SiweErrorCode } from "./siwe";
+import siweConfig from "./siwe.config";
+import { getClientIp } from "./siwe.server";
+import { getGlobalSingleton } from "./siwe.singletons";
+import { createJsonLinesFile } from "./siwe.storage";
+import { Address } from "viem";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * What happened (discriminated by `type`)
+ */
+export type SiweAuditEventDetails = {
+  address?: Address;
+  chainId?: number;
+  /** Server-side session id (only with a session store) */
+  sessionId?: string;
+} & (
+  | { type: "nonce_issued" }
+  | { type: "verify_success"; mode: "session" | "token" }
+  | { type: "verify_failure"; errorCode: SiweErrorCode }
+  | { type: "session_destroyed"; reason: "sign_out" | "revoked" | "revoked_all" }
+  | { type: "session_expired" }
+  | { type: "account_linked"; userId: string }
+  | { type: "account_unlinked"; userId: string }
+  | { type: "account_switched"; userId: string; previousAddress: Address }
+  | { type: "chain_switched"; previousChainId: number }
+);
+
+/**
+ * An audit event as delivered to sinks
+ */
+export type SiweAuditEvent = SiweAuditEventDetails & {
+  /** Unix timestamp (ms) */
+  timestamp: number;
+  ip?: string;
+  userAgent?: string;
+};
+
+export type SiweAuditEventType = SiweAuditEvent["type"];
+
+/**
+ * Receives audit events. May be async; errors are logged and ignored.
+ */
+export type SiweAuditSink = (event: SiweAuditEvent) => void | Promise<void>;
+
+// =============================================================================
+// BUILT-IN SINKS
+// =============================================================================
+
+/**
+ * Log every event as one console line
+ */
+export function createConsoleAuditSink(): SiweAuditSink {
+  return event => {
+    console.info(`[siwe] ${event.type}`, JSON.stringify(event));
+  };
+}
+
+/**
+ * Append every event to a JSON lines file in `storageDir`
+ */
+export function createFileAuditSink(fileName = "audit.jsonl"): SiweAuditSink {
+  const file = createJsonLinesFile<SiweAuditEvent>(fileName);
+  return event => file.append(event);
+}
+
+/**
+ * POST every event as JSON to a URL
+ */
+export function createWebhookAuditSink(url: string, headers: Record<string, string> = {}): SiweAuditSink {
+  return async event => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(event),
+      signal: AbortSignal.timeout(5000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Audit webhook responded with ${response.status}`);
+    }
+  };
+}
+
+// =============================================================================
+// SINK REGISTRY
+// =============================================================================
+
+/**
+ * Get the active sinks (configured in siwe.config.ts plus any added via addAuditSink)
+ */
+export function getAuditSinks(): SiweAuditSink[] {
+  return getGlobalSingleton<SiweAuditSink[]>("auditSinks", () => {
+    const { sinks, webhookUrl } = siweConfig.audit;
+    return [
+      ...(sinks.includes("console") ? [createConsoleAuditSink()] : []),
+      ...(sinks.includes("file") ? [createFileAuditSink()] : []),
+      ...(webhookUrl ? [createWebhookAuditSink(webhookUrl)] : []),
+    ];
+  });
+}
+
+/**
+ * Add a custom sink, e.g. to write events to a database
+ * Call once at startup, e.g. from instrumentation.ts
+ *
+ * @example
+ * ```ts
+ * addAuditSink(event => db.insert("siwe_audit", event));
+ * ```
+ */
+export function addAuditSink(sink: SiweAuditSink) {
+  getAuditSinks().push(sink);
+}
+
+/**
+ * Emit an audit event to every sink (delivered after the response, see `after()`)
+ * Must be called while handling a request (route handlers, server actions, middleware).
+ *
+ * @param request - The request being handled (client IP and user agent are added)
+ * @param details - What happened
+ */
+export function emitAuditEvent(request: Request, details: SiweAuditEventDetails): void {
+  const event: SiweAuditEvent = {
+    ...details,
+    timestamp: Date.now(),
+    ip: getClientIp(request),
+    userAgent: request.headers.get("user-agent") || undefined,
+  };
+
+  const sinks = getAuditSinks();
+  if (sinks.length === 0) return;
+
+  after(() =>
+    Promise.all(
+      sinks.map(sink =>
+        Promise.resolve()
+          .then(() => sink(event))
+          .catch(error => console.error(`Failed to deliver SIWE audit event "${event.type}":`, error)),
+      ),
+    ),
+  );
+}
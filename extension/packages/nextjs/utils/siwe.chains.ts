@@ -0,0 +1,114 @@
+/**
+ * SIWE Chain Registry
+ *
+ * Resolves the chains users may sign in on and the RPC transports used to
+ * talk to them (ERC-1271 / ERC-6492 signature checks, token-gated roles, ENS).
+ *
+ * Chains come from `chains` / `allowedChainIds` in siwe.config.ts.
+ * RPC URLs come from, in order of preference:
+ * 1. SIWE_RPC_URL_<chainId> env var (comma-separated, e.g. SIWE_RPC_URL_1="https://a,https://b")
+ * 2. `rpcUrls` in siwe.config.ts
+ * 3. The chain's default public RPC
+ * Multiple URLs are wrapped in a viem `fallback` transport. Clients are pooled
+ * per chain for the lifetime of the server process (and across dev hot reloads).
+ *
+ * Used by:
+ * - POST /api/siwe/verify
+ * - verifySiweSignature (utils/siwe.signature.ts)
+ * - resolveEnsProfile (utils/siwe.ens.ts)
+ * - resolveRoles (utils/siwe.roles.ts)
+ */
+import siweConfig from "./siwe.config";
+import { getGlobalSingleton } from "./siwe.singletons";
+import { Chain, PublicClient, Transport, createPublicClient, fallback, http } from "viem";
+
+/**
+ * Get a configured chain by id
+ */
+export function getSiweChain(chainId: number): Chain | undefined {
+  return siweConfig.chains.find(chain => chain.id === chainId);
+}
+
+/**
+ * Check whether users may sign in on a chain
+ * A chain must be in `chains` and, if `allowedChainIds` is set, on that list.
+ */
+export function isChainAllowed(chainId: number | undefined): chainId is number {
+  if (chainId === undefined || !getSiweChain(chainId)) return false;
+
+  const allowed = siweConfig.allowedChainIds;
+  return allowed.length === 0 || allowed.includes(chainId);
+}
+
+/**
+ * RPC URLs configured for a chain (env var first, then siwe.config.ts)
+ * An empty list means the chain's default public RPC is used.
+ */
+export function getRpcUrls(chainId: number): string[] {
+  const fromEnv = (process.env[`SIWE_RPC_URL_${chainId}`] ?? "")
+    .split(",")
+    .map(url => url.trim())
+    .filter(Boolean);
+
+  return [...new Set([...fromEnv, ...(siweConfig.rpcUrls[chainId] ?? [])])];
+}
+
+function getTransport(chain: Chain): Transport {
+  const urls = getRpcUrls(chain.id);
+  if (urls.length === 0) return http();
+
+  // Fall back to the public RPC when every configured URL fails
+  return fallback([...urls.map(url => http(url)), http()]);
+}
+
+/**
+ * Client pool (one client per chain id), so requests reuse transports instead of
+ * creating a new client on every sign in. Kept across hot reloads like the stores.
+ */
+function getClientPool(): Map<number, PublicClient> {
+  return getGlobalSingleton("chainClients", () => new Map<number, PublicClient>());
+}
+
+/**
+ * Get the pooled public client for a chain, using its configured transports
+ */
+export function getChainClient(chain: Chain): PublicClient {
+  const clientPool = getClientPool();
+  let client = clientPool.get(chain.id);
+
+  if (!client) {
+    client = createPublicClient({ chain, transport: getTransport(chain) });
+    clientPool.set(chain.id, client);
+  }
+
+  return client;
+}
+
+/**
+ * Get a public client for a chain users may sign in on
+ * @returns The client, or undefined if the chain is not allowed (see isChainAllowed)
+ */
+export function getPublicClientForChain(chainId: number | undefined): PublicClient | undefined {
+  if (!isChainAllowed(chainId)) return undefined;
+
+  return getChainClient(getSiweChain(chainId)!);
+}
+
+/**
+ * How long sign in, refresh and session updates wait for optional RPC lookups
+ * (token-gated roles, ENS) before going on without them
+ */
+export const RPC_TIMEOUT_MS = 3000;
+
+/**
+ * Reject if a promise does not settle within `ms`
+ * @param label - Names the operation in the timeout error
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
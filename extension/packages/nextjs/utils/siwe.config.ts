@@ -4,15 +4,48 @@
  * Customize your Sign in with Ethereum settings here.
  * These values are used by the session management and SIWE message creation.
  */
+import type { SiweRoleRule } from "./siwe.roles";
+import type { Chain } from "viem";
+import * as chains from "viem/chains";
 
 const siweConfig = {
   /**
-   * Session duration in days.
-   * After this time, the user will need to sign in again.
+   * Session cookie lifetime in days.
+   * The cookie is renewed while the user is active (sliding session), so this is
+   * how long a session survives without any visits. Never exceeds `absoluteMaxDays`.
    * @default 7
    */
   sessionDurationDays: 7,
 
+  /**
+   * Idle timeout in minutes.
+   * Sessions without any activity (session checks) for this long are rejected.
+   * Set to 0 to disable (sessions then only end via `sessionDurationDays` / `absoluteMaxDays`).
+   * @default 0
+   */
+  idleTimeoutMinutes: 0,
+
+  /**
+   * Absolute session limit in days, counted from sign in.
+   * After this time, the user will need to sign in again, however active they are.
+   * @default 30
+   */
+  absoluteMaxDays: 30,
+
+  /**
+   * Keeps useSiwe in sync when the session changes outside the current tab
+   * (signed out in another tab, expired, revoked from another device).
+   * Revalidations are session checks, so they count as activity for `idleTimeoutMinutes`.
+   */
+  sessionSync: {
+    /** Tell other tabs about sign ins and sign outs (BroadcastChannel, localStorage fallback) @default true */
+    crossTab: true as boolean,
+    /** Check the session when the window regains focus or becomes visible @default true */
+    revalidateOnFocus: true as boolean,
+    /** Check the session every N seconds while the page is visible (0 disables) @default 300 */
+    revalidateIntervalSeconds: 300,
+  },
+
   /**
    * SIWE message expiration in minutes.
    * This is how long the user has to sign the message after it's created.
@@ -27,9 +60,301 @@ const siweConfig = {
    * Customize this to match your application's branding.
    */
   statement: "Sign in with Ethereum to the app.",
+
+  /**
+   * Domains (host[:port]) users may sign in from. Entries starting with `*.` match
+   * any subdomain, e.g. ["example.com", "www.example.com", "*.vercel.app"].
+   * Messages must name the domain the request was made to, and that domain must be
+   * on this list. Leave empty to accept the request's own host (fine for local dev).
+   * @default []
+   */
+  allowedDomains: [] as string[],
+
+  /**
+   * Honor headers set by a reverse proxy or CDN:
+   * - X-Forwarded-Host / X-Forwarded-Proto: the request's domain and origin
+   * - X-Forwarded-For / X-Real-IP: the client IP (rate limits, audit events, session records)
+   * Without it, forwarded headers are ignored everywhere and client IPs are unknown.
+   * Only enable this when the app is always reached through a proxy that sets
+   * (or overwrites) these headers, as clients can send them too.
+   * @default false
+   */
+  trustProxy: false as boolean,
+
+  /**
+   * Number of trusted proxies in front of the app (used with `trustProxy`).
+   * Each proxy appends the address it received the request from to X-Forwarded-For,
+   * so the client IP is this many entries from the right.
+   * @default 1
+   */
+  trustedProxyCount: 1,
+
+  /**
+   * Server-side checks of message fields that viem does not validate
+   * (POST /api/siwe/verify rejects messages that fail any enabled check).
+   */
+  messagePolicy: {
+    /** `uri` must have the same origin as the request @default true */
+    uri: true as boolean,
+    /** Maximum difference between `issuedAt` and the server clock, in seconds (0 = disabled) @default 300 */
+    issuedAtSkewSeconds: 300,
+    /** `expirationTime` must be set and at most `messageExpirationMinutes` after `issuedAt` @default true */
+    maxExpiration: true as boolean,
+    /**
+     * `statement` must equal `statement` above (plus the ReCap suffix, if any).
+     * Disable to allow custom statements via `signIn({ statement })`.
+     * @default true
+     */
+    statement: true as boolean,
+    /**
+     * Issue a `requestId` with every nonce and require the message to carry it
+     * (useSiwe adds it automatically).
+     * @default false
+     */
+    requestId: false as boolean,
+  },
+
+  /**
+   * Let the server prepare the whole SIWE message (POST /api/siwe/message).
+   * useSiwe then only signs the returned text, and /api/siwe/verify rejects any
+   * message that differs from the issued one byte-for-byte.
+   * @default false
+   */
+  serverIssuedMessages: false as boolean,
+
+  /**
+   * Resources (URIs) that may be requested in the SIWE message.
+   * `useSiwe().signIn({ resources })` adds them to the message; /api/siwe/verify
+   * rejects messages with any resource not on this list, and the granted ones
+   * are stored in the session (check them with `hasResource()`).
+   * Entries ending in `*` match by prefix, e.g. "https://example.com/api/*".
+   * @default []
+   */
+  allowedResources: [] as string[],
+
+  /**
+   * Chains known to the server (signature verification, token-gated roles, ENS).
+   * Add more chains as needed for your application.
+   * @default [mainnet, polygon, optimism, arbitrum, base, gnosis, scroll, zkSync, sepolia, hardhat]
+   */
+  chains: [
+    // Mainnets
+    chains.mainnet,
+    chains.polygon,
+    chains.optimism,
+    chains.arbitrum,
+    chains.base,
+    chains.gnosis,
+    chains.scroll,
+    chains.zkSync,
+    // Testnets
+    chains.sepolia,
+    // Local development (hardhat.id = 31337, also used by Anvil)
+    chains.hardhat,
+  ] as Chain[],
+
+  /**
+   * Chain ids users may sign in on (must also be in `chains`).
+   * /api/siwe/verify rejects messages for any other chain.
+   * Leave empty to allow every chain in `chains`.
+   * @example [1, 8453]
+   * @default []
+   */
+  allowedChainIds: [] as number[],
+
+  /**
+   * RPC URLs per chain id, tried in order (viem fallback transport).
+   * The SIWE_RPC_URL_<chainId> env var (comma-separated) takes precedence, so
+   * keyed provider URLs can stay out of source control. The chain's default
+   * public RPC is always the last fallback.
+   * @example { 1: ["https://eth-mainnet.g.alchemy.com/v2/<key>"] }
+   * @default {}
+   */
+  rpcUrls: {} as Record<number, string[]>,
+
+  /**
+   * What useSiwe does when the wallet switches to another network than the session's chain.
+   * - "ignore": Keep the session on the chain it signed in on
+   * - "sign-out": Sign out
+   * - "re-sign": Ask the wallet to sign a message for the new chain
+   * - "update-silently": Move the session to the new chain without a signature
+   *   (smart contract accounts still sign again, their ownership may differ per chain)
+   * Unsupported chains (see `chains` / `allowedChainIds`) never update the session.
+   * Roles are resolved again for the new chain. The server enforces this too: only
+   * "update-silently" lets PATCH /api/siwe/session change the chain without a signature.
+   * @default "ignore"
+   */
+  chainSwitchPolicy: "ignore" as "ignore" | "sign-out" | "re-sign" | "update-silently",
+
+  /**
+   * Per-chain LRU cache of bytecode lookups used during signature verification.
+   * Addresses without bytecode (EOAs) are verified locally instead of with an
+   * `eth_call`, so sign-in bursts don't hammer RPC providers.
+   * Hit / miss rates are available from getBytecodeCacheMetrics().
+   */
+  bytecodeCache: {
+    /** Maximum addresses cached per chain @default 10000 */
+    maxEntries: 10_000,
+    /** How long a lookup is reused, in seconds @default 300 */
+    ttlSeconds: 300,
+  },
+
+  /**
+   * Token-gated roles, evaluated once at sign in on the chain the user signed in on.
+   * Granted roles are stored in the session and exposed as `roles` / `hasRole()` in useSiwe.
+   * @example
+   * [
+   *   { role: "holder", type: "erc20", token: "0x...", minBalance: 10n ** 18n },
+   *   { role: "member", type: "erc721", token: "0x..." },
+   *   { role: "vip", type: "erc1155", token: "0x...", tokenId: 1n, chainId: 1 },
+   *   { role: "admin", type: "hasRole", contract: "0x...", roleId: keccak256(toHex("ADMIN_ROLE")) },
+   * ]
+   * @default []
+   */
+  roles: [] as SiweRoleRule[],
+
+  /**
+   * Resolve the primary ENS name and avatar (mainnet) on sign in.
+   * Names are forward-verified and stored in the session as `ensName` / `ensAvatar`.
+   * Lookups time out after 3 seconds (sign in continues without a name) and are cached per address for an hour.
+   * @default true
+   */
+  resolveEns: true,
+
+  /**
+   * Bearer tokens for non-browser clients (mobile apps, backend services).
+   * When enabled, POST /api/siwe/verify with `mode: "token"` returns a signed
+   * JWT access token (sub = CAIP-10 account) plus a rotating refresh token.
+   * Other services can verify access tokens with the keys at /api/siwe/jwks.
+   * Production requires the SIWE_JWT_PRIVATE_KEY env var (P-256 PKCS#8 PEM).
+   */
+  jwt: {
+    /** @default false */
+    enabled: false as boolean,
+    /** Access token lifetime in minutes @default 15 */
+    accessTokenMinutes: 15,
+    /** Refresh token lifetime in days @default 30 */
+    refreshTokenDays: 30,
+    /** `iss` claim of issued tokens @default "siwe" */
+    issuer: "siwe",
+    /** Where refresh tokens are stored: "memory" or "file" (in `storageDir`) @default "memory" */
+    refreshTokenStore: "memory" as "memory" | "file",
+  },
+
+  /**
+   * Rate limits for the sign-in routes (token buckets: burst of `capacity`,
+   * then `refillPerMinute` requests per minute). Exceeding a limit returns
+   * 429 with a Retry-After header.
+   * - nonce: GET /api/siwe/nonce, per client IP
+   * - verifyIp: POST /api/siwe/verify, per client IP
+   * - verifyAddress: POST /api/siwe/verify, failed signature checks per address claimed in the message
+   * Client IPs are only known with `trustProxy`; otherwise the per-IP limits are skipped (with a warning).
+   * Buckets are kept in memory; register a shared limiter with setRateLimiter()
+   * for multi-instance deployments.
+   */
+  rateLimit: {
+    /** @default true */
+    enabled: true as boolean,
+    /** @default { capacity: 20, refillPerMinute: 10 } */
+    nonce: { capacity: 20, refillPerMinute: 10 },
+    /** @default { capacity: 10, refillPerMinute: 5 } */
+    verifyIp: { capacity: 10, refillPerMinute: 5 },
+    /** @default { capacity: 5, refillPerMinute: 2 } */
+    verifyAddress: { capacity: 5, refillPerMinute: 2 },
+  },
+
+  /**
+   * Audit log of authentication events (nonce_issued, verify_success, verify_failure,
+   * session_destroyed, session_expired) with address, chainId, IP and user agent.
+   * Add custom sinks (e.g. a database) with addAuditSink() from utils/siwe.audit.ts.
+   */
+  audit: {
+    /**
+     * Built-in sinks: "console" logs each event, "file" appends JSON lines to
+     * `audit.jsonl` in `storageDir`
+     * @default []
+     */
+    sinks: [] as ("console" | "file")[],
+    /** POST every event as JSON to this URL (leave empty to disable) @default "" */
+    webhookUrl: "",
+  },
+
+  /**
+   * Page that unauthenticated users are sent to.
+   * The original destination is passed along as `?returnTo=`.
+   * @default "/siwe"
+   */
+  signInPath: "/siwe",
+
+  /**
+   * Paths that require a SIWE session (enforced by middleware.ts).
+   * Each entry protects the path itself and everything below it,
+   * e.g. "/dashboard" also protects "/dashboard/settings".
+   * Pages redirect to `signInPath`, API routes (/api/*) respond with 401.
+   * @example ["/dashboard", "/api/protected"]
+   * @default []
+   */
+  protectedPaths: [] as string[],
+
+  /**
+   * Where issued nonces are tracked until they are used or expire.
+   * Nonces are single-use and expire after `messageExpirationMinutes`.
+   * - "memory": In-process map (fine for a single server instance)
+   * - "file": JSON file in `storageDir` (survives restarts)
+   * For multi-instance deployments, register a shared store with setNonceStore().
+   * @default "memory"
+   */
+  nonceStore: "memory" as "memory" | "file",
+
+  /**
+   * Optional server-side session registry.
+   * When enabled, every sign in is recorded so sessions can be listed and
+   * revoked ("sign out everywhere"). A revoked cookie stops working immediately.
+   * - "none": Stateless cookies only (default)
+   * - "memory": In-process registry (fine for a single server instance)
+   * - "file": JSON file in `storageDir` (survives restarts)
+   * For multi-instance deployments, register a shared store with setSessionStore().
+   * Note: middleware.ts only checks the cookie; revocation is enforced by the
+   * API routes, withSiweAuth and requireSiweSession.
+   * @default "none"
+   */
+  sessionStore: "none" as "none" | "memory" | "file",
+
+  /**
+   * Optional store of linked wallets (multi-account users).
+   * When enabled, every sign in is attached to a stable user id, signed in users can
+   * link more wallets with a second signature (useSiwe().linkWallet), and the session
+   * can switch between linked wallets without signing again.
+   * - "none": One wallet per session (default)
+   * - "memory": In-process store (fine for a single server instance)
+   * - "file": JSON file in `storageDir` (survives restarts)
+   * For multi-instance deployments, register a shared store with setAccountStore().
+   * @default "none"
+   */
+  accountStore: "none" as "none" | "memory" | "file",
+
+  /**
+   * Directory (relative to the Next.js app) used by file-backed stores.
+   * The default directory ships with a .gitignore; add a custom directory to your .gitignore.
+   * @default ".siwe"
+   */
+  storageDir: ".siwe",
 } as const;
 
 export default siweConfig;
 
 // Export individual values for convenience
-export const { sessionDurationDays, messageExpirationMinutes, statement } = siweConfig;
+export const {
+  sessionDurationDays,
+  idleTimeoutMinutes,
+  absoluteMaxDays,
+  messageExpirationMinutes,
+  statement,
+  allowedResources,
+  allowedChainIds,
+  roles,
+  resolveEns,
+  jwt,
+  signInPath,
+  protectedPaths,
+} = siweConfig;
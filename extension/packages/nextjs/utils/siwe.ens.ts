@@ -0,0 +1,102 @@
+/**
+ * SIWE ENS Resolution
+ *
+ * Resolves the primary ENS name and avatar of an address on sign in, so apps
+ * can show names instead of raw addresses. ENS lives on mainnet regardless of
+ * the chain the user signed in on.
+ *
+ * Used by:
+ * - POST /api/siwe/verify
+ * - PATCH /api/siwe/session (linked wallet switches)
+ */
+import { RPC_TIMEOUT_MS, getChainClient, getSiweChain, withTimeout } from "./siwe.chains";
+import siweConfig from "./siwe.config";
+import { Address } from "viem";
+import { mainnet } from "viem/chains";
+import { normalize } from "viem/ens";
+
+/**
+ * The ENS profile stored in the session
+ */
+export interface EnsProfile {
+  /** Primary ENS name (forward-verified) */
+  ensName?: string;
+  /** Avatar URL of the primary name */
+  ensAvatar?: string;
+}
+
+/**
+ * Avatars longer than this (e.g. inline data: URIs) are not stored,
+ * as the session cookie is limited to ~4KB
+ */
+const MAX_AVATAR_URL_LENGTH = 512;
+
+/**
+ * Resolved profiles are reused for this long, so repeated sign ins and wallet
+ * switches do not hit the RPC every time
+ */
+const ENS_CACHE_TTL_MS = 60 * 60 * 1000;
+const ENS_CACHE_MAX_ENTRIES = 1000;
+
+const profileCache = new Map<string, { profile: EnsProfile; expiresAt: number }>();
+
+/**
+ * Reverse-resolve an address to its primary ENS name and avatar
+ *
+ * The name is only returned if it forward-resolves back to the same address,
+ * so users cannot claim a name they do not control. Resolution failures and
+ * timeouts (RPC_TIMEOUT_MS) are logged and result in an empty profile (sign in still succeeds).
+ * Successful lookups are cached per address.
+ */
+export async function resolveEnsProfile(address: Address): Promise<EnsProfile> {
+  if (!siweConfig.resolveEns) return {};
+
+  const key = address.toLowerCase();
+  const cached = profileCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.profile;
+
+  try {
+    const profile = await withTimeout(lookupEnsProfile(address), RPC_TIMEOUT_MS, "ENS resolution");
+    cacheProfile(key, profile);
+    return profile;
+  } catch (error) {
+    console.error("Failed to resolve ENS name:", error);
+    return {};
+  }
+}
+
+async function lookupEnsProfile(address: Address): Promise<EnsProfile> {
+  // Uses the RPC URLs configured for mainnet, even if mainnet is not a sign-in chain
+  const mainnetClient = getChainClient(getSiweChain(mainnet.id) ?? mainnet);
+
+  const name = await mainnetClient.getEnsName({ address });
+  if (!name) return {};
+
+  // Forward verification: the name must point back to the address
+  const normalizedName = normalize(name);
+  const resolvedAddress = await mainnetClient.getEnsAddress({ name: normalizedName });
+  if (!resolvedAddress || resolvedAddress.toLowerCase() !== address.toLowerCase()) {
+    return {};
+  }
+
+  const avatar = await mainnetClient.getEnsAvatar({ name: normalizedName }).catch(() => null);
+
+  return {
+    ensName: name,
+    ensAvatar: avatar && avatar.length <= MAX_AVATAR_URL_LENGTH ? avatar : undefined,
+  };
+}
+
+function cacheProfile(key: string, profile: EnsProfile) {
+  const now = Date.now();
+  for (const [cachedKey, entry] of profileCache) {
+    if (entry.expiresAt <= now) profileCache.delete(cachedKey);
+  }
+
+  // Maps iterate in insertion order: drop the oldest entry when full
+  if (profileCache.size >= ENS_CACHE_MAX_ENTRIES) {
+    profileCache.delete(profileCache.keys().next().value!);
+  }
+
+  profileCache.set(key, { profile, expiresAt: now + ENS_CACHE_TTL_MS });
+}
@@ -0,0 +1,129 @@
+/**
+ * SIWE Lifecycle Hooks
+ *
+ * Server-side hooks for app-specific logic, e.g. upserting a user record on sign in:
+ * - onBeforeVerify: runs before the signature is verified (may reject the sign in)
+ * - onSignIn: runs after a successful verification (may reject the sign in or attach
+ *   app data to the session, available as `session.data` and `data` in useSiwe)
+ * - onSignOut: runs when the user signs out (DELETE /api/siwe/session)
+ *
+ * Edit `siweHooks` below like siwe.config.ts. Hooks live in their own file because
+ * they run on the server and may import server-only code (database clients, secrets),
+ * which must not end up in the client bundle with siwe.config.ts.
+ *
+ * A hook that throws fails the request with INTERNAL_ERROR, except onSignOut:
+ * its errors are logged and the user is signed out anyway.
+ *
+ * Used by:
+ * - POST /api/siwe/verify
+ * - DELETE /api/siwe/session
+ */
+import { NextRequest } from "next/server";
+import { SiweSessionData } from "./siwe";
+import { ReCapAttenuations } from "./siwe.recap";
+import { Address } from "viem";
+import { SiweMessage } from "viem/siwe";
+
+// =============================================================================
+// APP SESSION DATA
+// =============================================================================
+
+/**
+ * App data attached to the session by onSignIn (`session.data`)
+ * Replace with your own type to make it type-safe on the server and in useSiwe.
+ * Stored in the encrypted session cookie, so keep it small (cookies are limited to ~4 KB).
+ *
+ * @example
+ * ```ts
+ * export type SiweAppData = { userId: string; plan: "free" | "pro" };
+ * ```
+ */
+export type SiweAppData = Record<string, unknown>;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Returned by a hook to reject the sign in (403 SIGN_IN_REJECTED with this error)
+ */
+export interface SiweHookRejection {
+  ok: false;
+  error: string;
+}
+
+/**
+ * Returned by onSignIn to accept the sign in, optionally with app data for the session
+ */
+export interface SiweSignInAccept<TData extends object = SiweAppData> {
+  ok: true;
+  data?: TData;
+}
+
+/**
+ * Context of onBeforeVerify (the message is parsed but its signature is not yet verified)
+ */
+export interface SiweBeforeVerifyContext {
+  request: NextRequest;
+  message: Partial<SiweMessage>;
+  address: Address;
+  chainId: number;
+}
+
+/**
+ * Context of onSignIn (the signature is valid and the nonce has been consumed)
+ */
+export interface SiweSignInContext {
+  request: NextRequest;
+  address: Address;
+  chainId: number;
+  /** "token" for bearer token sign ins (app data is returned in the response only) */
+  mode: "session" | "token";
+  resources: string[];
+  capabilities?: ReCapAttenuations;
+  roles: string[];
+  ensName?: string;
+}
+
+/**
+ * Context of onSignOut
+ */
+export interface SiweSignOutContext<TData extends object = SiweAppData> {
+  request: NextRequest;
+  /** The session being destroyed (before it is cleared) */
+  session: SiweSessionData<TData>;
+}
+
+/**
+ * Lifecycle hooks (all optional)
+ */
+export interface SiweHooks<TData extends object = SiweAppData> {
+  /** Return a rejection to refuse the sign in before any RPC work */
+  onBeforeVerify?: (context: SiweBeforeVerifyContext) => Promise<SiweHookRejection | void>;
+  /** Return `{ ok: true, data }` to attach app data, or a rejection to refuse the sign in */
+  onSignIn?: (context: SiweSignInContext) => Promise<SiweSignInAccept<TData> | SiweHookRejection | void>;
+  /** Clean up after sign out (the response waits for it) */
+  onSignOut?: (context: SiweSignOutContext<TData>) => Promise<void>;
+}
+
+// =============================================================================
+// HOOKS
+// =============================================================================
+
+/**
+ * Your app's hooks
+ *
+ * @example
+ * ```ts
+ * export const siweHooks: SiweHooks = {
+ *   onSignIn: async ({ address }) => {
+ *     const user = await db.users.upsert({ address });
+ *     return { ok: true, data: { userId: user.id } };
+ *   },
+ *   onSignOut: async ({ session }) => {
+ *     await db.users.update(session.data?.userId, { lastSignOutAt: new Date() });
+ *   },
+ * };
+ * ```
+ */
+export const siweHooks: SiweHooks = {};
@@ -0,0 +1,371 @@
+/**
+ * SIWE Bearer Tokens
+ *
+ * Short-lived JWT access tokens plus rotating refresh tokens for clients that
+ * cannot use the httpOnly session cookie (mobile apps, backend services).
+ *
+ * This file contains:
+ * 1. Signing key management (ES256, exposed as a JWKS for other services)
+ * 2. Access token issuance / verification
+ * 3. Refresh token store (single-use, rotated on every refresh, revoked by "sign out everywhere")
+ *
+ * Used by:
+ * - POST /api/siwe/verify (mode: "token")
+ * - POST /api/siwe/token/refresh
+ * - POST /api/siwe/token/revoke
+ * - GET /api/siwe/jwks
+ * - DELETE /api/siwe/sessions
+ * - getSiweIdentity / withSiweIdentity (utils/siwe.server.ts)
+ */
+import { SESSION_ABSOLUTE_MAX_AGE_MS } from "./siwe";
+import { checkAddressAccess } from "./siwe.accessList";
+import { getPublicClientForChain } from "./siwe.chains";
+import siweConfig from "./siwe.config";
+import { resolveRoles } from "./siwe.roles";
+import { deleteGlobalSingleton, getGlobalSingleton, setGlobalSingleton } from "./siwe.singletons";
+import { createJsonFile } from "./siwe.storage";
+import {
+  JWK,
+  KeyLike,
+  SignJWT,
+  calculateJwkThumbprint,
+  exportJWK,
+  generateKeyPair,
+  importJWK,
+  importPKCS8,
+  jwtVerify,
+} from "jose";
+import { Address, Hex, getAddress, isAddressEqual } from "viem";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * The identity encoded in a token
+ */
+export interface SiweTokenSubject {
+  address: Address;
+  chainId: number;
+  roles: string[];
+}
+
+/**
+ * Tokens returned to the client
+ */
+export interface SiweTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: "Bearer";
+  /** Access token lifetime in seconds */
+  expiresIn: number;
+}
+
+/**
+ * Server-side record of an issued refresh token
+ */
+export interface RefreshTokenRecord extends SiweTokenSubject {
+  /** Unix timestamp (ms) after which the refresh token can no longer be used */
+  expiresAt: number;
+  /** Unix timestamp (ms) of the sign in that started this chain of refresh tokens */
+  signedInAt: number;
+  /** Merkle proof submitted at sign in, so the access lists can be checked again on refresh */
+  merkleProof?: Hex[];
+}
+
+/**
+ * Sign in details carried over from one refresh token to the next
+ */
+export interface RefreshTokenOrigin {
+  /** @default now */
+  signedInAt?: number;
+  merkleProof?: readonly Hex[];
+}
+
+/**
+ * Storage backend for refresh tokens (keyed by a SHA-256 hash of the token)
+ */
+export interface RefreshTokenStore {
+  /** Save a refresh token record */
+  save(tokenHash: string, record: RefreshTokenRecord): Promise<void>;
+  /**
+   * Atomically remove a refresh token and return its record.
+   * Must return null if the token is unknown, already used or expired.
+   */
+  consume(tokenHash: string): Promise<RefreshTokenRecord | null>;
+  /** Delete all refresh tokens of an address. Resolves with the number of revoked tokens */
+  revokeAllForAddress(address: Address): Promise<number>;
+}
+
+interface SigningKeys {
+  privateKey: KeyLike;
+  publicKey: KeyLike | Uint8Array;
+  publicJwk: JWK;
+}
+
+const ALGORITHM = "ES256";
+const ACCESS_TOKEN_TTL_SECONDS = siweConfig.jwt.accessTokenMinutes * 60;
+const REFRESH_TOKEN_TTL_MS = siweConfig.jwt.refreshTokenDays * 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// SIGNING KEYS
+// =============================================================================
+
+/**
+ * Load the signing key pair.
+ *
+ * In production: SIWE_JWT_PRIVATE_KEY env var (PKCS#8 PEM, P-256) is REQUIRED
+ * In development: Falls back to an ephemeral key pair (tokens do not survive restarts)
+ *
+ * Generate a key: `openssl genpkey -algorithm EC -pkeyopt ec_paramgen_curve:P-256`
+ */
+async function loadSigningKeys(): Promise<SigningKeys> {
+  const pem = process.env.SIWE_JWT_PRIVATE_KEY;
+  let privateKey: KeyLike;
+
+  if (pem) {
+    privateKey = await importPKCS8(pem.replace(/\\n/g, "\n"), ALGORITHM, { extractable: true });
+  } else if (process.env.NODE_ENV === "production") {
+    throw new Error(
+      "SIWE_JWT_PRIVATE_KEY environment variable is required in production when jwt.enabled is true. " +
+        "Generate a P-256 key: `openssl genpkey -algorithm EC -pkeyopt ec_paramgen_curve:P-256`",
+    );
+  } else {
+    // Development fallback (acceptable for local dev only)
+    ({ privateKey } = await generateKeyPair(ALGORITHM, { extractable: true }));
+  }
+
+  const { kty, crv, x, y } = await exportJWK(privateKey);
+  const publicJwk: JWK = { kty, crv, x, y };
+  const kid = await calculateJwkThumbprint(publicJwk);
+
+  return {
+    privateKey,
+    publicKey: await importJWK(publicJwk, ALGORITHM),
+    publicJwk: { ...publicJwk, kid, alg: ALGORITHM, use: "sig" },
+  };
+}
+
+/**
+ * Cached signing keys. A failed load is not cached, so the next request tries again
+ */
+function getSigningKeys(): Promise<SigningKeys> {
+  return getGlobalSingleton("jwtSigningKeys", () =>
+    loadSigningKeys().catch(error => {
+      deleteGlobalSingleton("jwtSigningKeys");
+      throw error;
+    }),
+  );
+}
+
+/**
+ * Public keys for verifying access tokens (served at /api/siwe/jwks)
+ */
+export async function getJwks(): Promise<{ keys: JWK[] }> {
+  const { publicJwk } = await getSigningKeys();
+  return { keys: [publicJwk] };
+}
+
+// =============================================================================
+// ACCESS TOKENS
+// =============================================================================
+
+/**
+ * CAIP-10 account id, e.g. "eip155:1:0xAbC..."
+ */
+export function toCaip10(chainId: number, address: Address): string {
+  return `eip155:${chainId}:${address}`;
+}
+
+/**
+ * Sign a short-lived access token
+ */
+export async function createAccessToken(subject: SiweTokenSubject): Promise<string> {
+  const { privateKey, publicJwk } = await getSigningKeys();
+
+  return new SignJWT({ chain_id: subject.chainId, roles: subject.roles })
+    .setProtectedHeader({ alg: ALGORITHM, kid: publicJwk.kid })
+    .setSubject(toCaip10(subject.chainId, subject.address))
+    .setIssuer(siweConfig.jwt.issuer)
+    .setIssuedAt()
+    .setExpirationTime(`${ACCESS_TOKEN_TTL_SECONDS}s`)
+    .sign(privateKey);
+}
+
+/**
+ * Verify an access token
+ * @returns The token subject, or null if the token is invalid or expired
+ */
+export async function verifyAccessToken(token: string): Promise<SiweTokenSubject | null> {
+  try {
+    const { publicKey } = await getSigningKeys();
+    const { payload } = await jwtVerify(token, publicKey, { issuer: siweConfig.jwt.issuer, algorithms: [ALGORITHM] });
+
+    const [namespace, chainId, address] = (payload.sub ?? "").split(":");
+    if (namespace !== "eip155" || Number(chainId) !== payload.chain_id) return null;
+
+    return {
+      address: getAddress(address),
+      chainId: Number(chainId),
+      roles: Array.isArray(payload.roles) ? (payload.roles as string[]) : [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+// =============================================================================
+// REFRESH TOKENS
+// =============================================================================
+
+/**
+ * In-memory refresh token store (per server process)
+ */
+export function createMemoryRefreshTokenStore(): RefreshTokenStore {
+  const records: Record<string, RefreshTokenRecord> = {};
+
+  return {
+    async save(tokenHash, record) {
+      records[tokenHash] = record;
+    },
+    async consume(tokenHash) {
+      return takeRecord(records, tokenHash);
+    },
+    async revokeAllForAddress(address) {
+      return removeRecordsOfAddress(records, address);
+    },
+  };
+}
+
+/**
+ * JSON file refresh token store (survives server restarts)
+ */
+export function createFileRefreshTokenStore(fileName = "refresh-tokens.json"): RefreshTokenStore {
+  const file = createJsonFile<Record<string, RefreshTokenRecord>>(fileName, () => ({}));
+
+  return {
+    async save(tokenHash, record) {
+      await file.update(records => {
+        records[tokenHash] = record;
+      });
+    },
+    async consume(tokenHash) {
+      return file.update(records => takeRecord(records, tokenHash));
+    },
+    async revokeAllForAddress(address) {
+      return file.update(records => removeRecordsOfAddress(records, address));
+    },
+  };
+}
+
+/**
+ * Remove a record (and any expired ones) and return it if it was still valid
+ */
+function takeRecord(records: Record<string, RefreshTokenRecord>, tokenHash: string): RefreshTokenRecord | null {
+  const record = records[tokenHash];
+  const now = Date.now();
+
+  for (const [key, value] of Object.entries(records)) {
+    if (key === tokenHash || value.expiresAt <= now) {
+      delete records[key];
+    }
+  }
+
+  return record && record.expiresAt > now ? record : null;
+}
+
+/**
+ * Remove all records of an address and return how many were removed
+ */
+function removeRecordsOfAddress(records: Record<string, RefreshTokenRecord>, address: Address): number {
+  const hashes = Object.keys(records).filter(tokenHash => isAddressEqual(records[tokenHash].address, address));
+  hashes.forEach(tokenHash => delete records[tokenHash]);
+  return hashes.length;
+}
+
+/**
+ * Get the refresh token store configured in siwe.config.ts (or registered via setRefreshTokenStore)
+ */
+export function getRefreshTokenStore(): RefreshTokenStore {
+  return getGlobalSingleton<RefreshTokenStore>("refreshTokenStore", () =>
+    siweConfig.jwt.refreshTokenStore === "file" ? createFileRefreshTokenStore() : createMemoryRefreshTokenStore(),
+  );
+}
+
+/**
+ * Replace the refresh token store with a custom implementation
+ * Call once at startup, e.g. from instrumentation.ts
+ */
+export function setRefreshTokenStore(store: RefreshTokenStore) {
+  setGlobalSingleton("refreshTokenStore", store);
+}
+
+async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Buffer.from(digest).toString("hex");
+}
+
+// =============================================================================
+// TOKEN ISSUANCE
+// =============================================================================
+
+/**
+ * Issue an access token and a refresh token for an authenticated address
+ * Refresh tokens expire after `refreshTokenDays`, and never later than `absoluteMaxDays`
+ * after the sign in, however often they are rotated (like the session cookie).
+ */
+export async function issueTokens(
+  subject: SiweTokenSubject,
+  { signedInAt = Date.now(), merkleProof }: RefreshTokenOrigin = {},
+): Promise<SiweTokens> {
+  const refreshToken = Buffer.from(crypto.getRandomValues(new Uint8Array(32))).toString("base64url");
+
+  await getRefreshTokenStore().save(await hashToken(refreshToken), {
+    ...subject,
+    expiresAt: Math.min(Date.now() + REFRESH_TOKEN_TTL_MS, signedInAt + SESSION_ABSOLUTE_MAX_AGE_MS),
+    signedInAt,
+    merkleProof: merkleProof ? [...merkleProof] : undefined,
+  });
+
+  return {
+    accessToken: await createAccessToken(subject),
+    refreshToken,
+    tokenType: "Bearer",
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  };
+}
+
+/**
+ * Exchange a refresh token for a new token pair (the old refresh token is consumed)
+ * Roles and the access lists are checked again, so tokens lose roles the address no
+ * longer qualifies for, and denied addresses stop getting tokens.
+ * @returns New tokens, or null if the refresh token is invalid, expired or already used,
+ * its chain is no longer allowed or its address is no longer permitted
+ */
+export async function refreshTokens(refreshToken: string): Promise<SiweTokens | null> {
+  const record = await getRefreshTokenStore().consume(await hashToken(refreshToken));
+  if (!record) return null;
+
+  const publicClient = getPublicClientForChain(record.chainId);
+  if (!publicClient) return null;
+
+  const access = await checkAddressAccess(record.address, { merkleProof: record.merkleProof });
+  if (!access.permitted) return null;
+
+  return issueTokens(
+    {
+      address: record.address,
+      chainId: record.chainId,
+      roles: await resolveRoles(publicClient, record.address),
+    },
+    { signedInAt: record.signedInAt, merkleProof: record.merkleProof },
+  );
+}
+
+/**
+ * Revoke a refresh token (e.g. when a bearer client signs out)
+ * @returns Whether the token was still valid (unknown, expired and used tokens are ignored)
+ */
+export async function revokeRefreshToken(refreshToken: string): Promise<boolean> {
+  return (await getRefreshTokenStore().consume(await hashToken(refreshToken))) !== null;
+}
@@ -0,0 +1,51 @@
+import { NONCE_TTL_MS, NonceRecord, createMemoryNonceStore } from "./siwe.nonceStore";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const NOW = new Date("2025-01-01T12:00:00.000Z");
+
+function createRecord(overrides: Partial<NonceRecord> = {}): NonceRecord {
+  return { issuedAt: NOW.getTime(), expiresAt: NOW.getTime() + NONCE_TTL_MS, ...overrides };
+}
+
+describe("createMemoryNonceStore", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns the record of an issued nonce", async () => {
+    const store = createMemoryNonceStore();
+    const record = createRecord({ requestId: "request-1" });
+    await store.issue("nonce1", record);
+
+    expect(await store.consume("nonce1")).toEqual(record);
+  });
+
+  it("consumes each nonce only once", async () => {
+    const store = createMemoryNonceStore();
+    await store.issue("nonce1", createRecord());
+
+    expect(await store.consume("nonce1")).not.toBeNull();
+    expect(await store.consume("nonce1")).toBeNull();
+  });
+
+  it("rejects unknown nonces", async () => {
+    const store = createMemoryNonceStore();
+    await store.issue("nonce1", createRecord());
+
+    expect(await store.consume("nonce2")).toBeNull();
+    expect(await store.consume("nonce1")).not.toBeNull();
+  });
+
+  it("rejects expired nonces", async () => {
+    const store = createMemoryNonceStore();
+    await store.issue("nonce1", createRecord());
+
+    vi.advanceTimersByTime(NONCE_TTL_MS);
+    expect(await store.consume("nonce1")).toBeNull();
+  });
+});
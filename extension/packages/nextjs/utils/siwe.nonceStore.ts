@@ -0,0 +1,148 @@
+/**
+ * SIWE Nonce Store
+ *
+ * Tracks issued nonces on the server so each one can be used exactly once
+ * and only within its time-to-live (independent of the session cookie).
+ *
+ * Used by:
+ * - GET /api/siwe/nonce (issue)
+ * - POST /api/siwe/verify (consume)
+ *
+ * Built-in stores are selected with `nonceStore` in siwe.config.ts.
+ * For multi-instance deployments, implement NonceStore on top of a shared
+ * database (Redis, Postgres, ...) and register it with setNonceStore().
+ */
+import siweConfig from "./siwe.config";
+import { getGlobalSingleton, setGlobalSingleton } from "./siwe.singletons";
+import { createJsonFile } from "./siwe.storage";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Metadata recorded for every issued nonce
+ */
+export interface NonceRecord {
+  /** Unix timestamp (ms) when the nonce was issued */
+  issuedAt: number;
+  /** Unix timestamp (ms) after which the nonce can no longer be used */
+  expiresAt: number;
+  /** requestId the message must carry (see `messagePolicy.requestId` in siwe.config.ts) */
+  requestId?: string;
+  /** Full message text issued by POST /api/siwe/message (the signed message must match exactly) */
+  message?: string;
+}
+
+/**
+ * Storage backend for issued nonces
+ */
+export interface NonceStore {
+  /** Record a freshly issued nonce */
+  issue(nonce: string, record: NonceRecord): Promise<void>;
+  /**
+   * Atomically remove a nonce and return its record.
+   * Must return null if the nonce is unknown, already consumed or expired.
+   */
+  consume(nonce: string): Promise<NonceRecord | null>;
+}
+
+/**
+ * Nonce time-to-live in milliseconds (matches messageExpirationMinutes)
+ */
+export const NONCE_TTL_MS = siweConfig.messageExpirationMinutes * 60 * 1000;
+
+// =============================================================================
+// BUILT-IN STORES
+// =============================================================================
+
+/**
+ * Drop expired entries so the store does not grow forever
+ */
+function pruneExpired(records: Record<string, NonceRecord>, now: number) {
+  for (const [nonce, record] of Object.entries(records)) {
+    if (record.expiresAt <= now) {
+      delete records[nonce];
+    }
+  }
+}
+
+/**
+ * Remove a nonce and return its record if it was still valid
+ */
+function takeRecord(records: Record<string, NonceRecord>, nonce: string): NonceRecord | null {
+  const record = records[nonce];
+  delete records[nonce];
+  return record && record.expiresAt > Date.now() ? record : null;
+}
+
+/**
+ * In-memory nonce store (per server process)
+ */
+export function createMemoryNonceStore(): NonceStore {
+  const records: Record<string, NonceRecord> = {};
+
+  return {
+    async issue(nonce, record) {
+      pruneExpired(records, Date.now());
+      records[nonce] = record;
+    },
+    async consume(nonce) {
+      return takeRecord(records, nonce);
+    },
+  };
+}
+
+/**
+ * JSON file nonce store (survives server restarts)
+ */
+export function createFileNonceStore(fileName = "nonces.json"): NonceStore {
+  const file = createJsonFile<Record<string, NonceRecord>>(fileName, () => ({}));
+
+  return {
+    async issue(nonce, record) {
+      await file.update(records => {
+        pruneExpired(records, Date.now());
+        records[nonce] = record;
+      });
+    },
+    async consume(nonce) {
+      return file.update(records => takeRecord(records, nonce));
+    },
+  };
+}
+
+// =============================================================================
+// STORE REGISTRY
+// =============================================================================
+
+/**
+ * Get the nonce store configured in siwe.config.ts (or registered via setNonceStore)
+ */
+export function getNonceStore(): NonceStore {
+  return getGlobalSingleton<NonceStore>("nonceStore", () =>
+    siweConfig.nonceStore === "file" ? createFileNonceStore() : createMemoryNonceStore(),
+  );
+}
+
+/**
+ * Replace the nonce store with a custom implementation
+ * Call once at startup, e.g. from instrumentation.ts
+ */
+export function setNonceStore(store: NonceStore) {
+  setGlobalSingleton("nonceStore", store);
+}
+
+/**
+ * Issue a nonce with the configured time-to-live
+ * @param bindings - Optional requestId / issued message bound to the nonce
+ */
+export async function issueNonce(
+  nonce: string,
+  bindings: Pick<NonceRecord, "requestId" | "message"> = {},
+): Promise<NonceRecord> {
+  const issuedAt = Date.now();
+  const record: NonceRecord = { ...bindings, issuedAt, expiresAt: issuedAt + NONCE_TTL_MS };
+  await getNonceStore().issue(nonce, record);
+  return record;
+}
@@ -0,0 +1,132 @@
+import { SiweErrorCode } from "./siwe";
+import siweConfig from "./siwe.config";
+import { SiweMessagePolicy, checkMessagePolicy, checkRequestId } from "./siwe.policy";
+import { ReCapAttenuations, appendRecapStatement } from "./siwe.recap";
+import { SiweMessage } from "viem/siwe";
+import { describe, expect, it } from "vitest";
+
+const POLICY: SiweMessagePolicy = {
+  uri: true,
+  issuedAtSkewSeconds: 60,
+  maxExpiration: true,
+  statement: true,
+  requestId: true,
+};
+
+const NOW = new Date("2025-01-01T12:00:00.000Z");
+const ORIGIN = "https://example.com";
+
+/**
+ * A message that passes every check
+ */
+function createMessage(overrides: Partial<SiweMessage> = {}): Partial<SiweMessage> {
+  return {
+    version: "1",
+    uri: `${ORIGIN}/siwe`,
+    issuedAt: NOW,
+    expirationTime: new Date(NOW.getTime() + siweConfig.messageExpirationMinutes * 60 * 1000),
+    statement: siweConfig.statement,
+    requestId: "request-1",
+    ...overrides,
+  };
+}
+
+const check = (message: Partial<SiweMessage>, capabilities?: ReCapAttenuations, policy = POLICY) =>
+  checkMessagePolicy(message, { origin: ORIGIN, capabilities, now: NOW }, policy);
+
+describe("checkMessagePolicy", () => {
+  it("accepts a message matching the policy", () => {
+    expect(check(createMessage())).toBeNull();
+  });
+
+  it("rejects unsupported versions", () => {
+    expect(check(createMessage({ version: "2" as "1" }))?.errorCode).toBe(SiweErrorCode.INVALID_MESSAGE);
+  });
+
+  describe("uri", () => {
+    it("rejects a uri on another origin", () => {
+      expect(check(createMessage({ uri: "https://evil.com/siwe" }))?.errorCode).toBe(SiweErrorCode.URI_MISMATCH);
+    });
+
+    it("rejects a missing or malformed uri", () => {
+      expect(check(createMessage({ uri: undefined }))?.errorCode).toBe(SiweErrorCode.URI_MISMATCH);
+      expect(check(createMessage({ uri: "not a uri" }))?.errorCode).toBe(SiweErrorCode.URI_MISMATCH);
+    });
+
+    it("is skipped when disabled", () => {
+      expect(check(createMessage({ uri: "https://evil.com/siwe" }), undefined, { ...POLICY, uri: false })).toBeNull();
+    });
+  });
+
+  describe("issuedAt skew", () => {
+    it("accepts issuedAt within the allowed skew", () => {
+      const issuedAt = new Date(NOW.getTime() - 59_000);
+      expect(check(createMessage({ issuedAt, expirationTime: NOW }))).toBeNull();
+    });
+
+    it("rejects issuedAt too far in the past or future", () => {
+      const past = new Date(NOW.getTime() - 61_000);
+      const future = new Date(NOW.getTime() + 61_000);
+      expect(check(createMessage({ issuedAt: past, expirationTime: NOW }))?.errorCode).toBe(
+        SiweErrorCode.ISSUED_AT_OUT_OF_RANGE,
+      );
+      expect(check(createMessage({ issuedAt: future, expirationTime: future }))?.errorCode).toBe(
+        SiweErrorCode.ISSUED_AT_OUT_OF_RANGE,
+      );
+    });
+
+    it("rejects a missing issuedAt", () => {
+      expect(check(createMessage({ issuedAt: undefined }))?.errorCode).toBe(SiweErrorCode.ISSUED_AT_OUT_OF_RANGE);
+    });
+  });
+
+  describe("max expiration", () => {
+    it("rejects messages valid for longer than messageExpirationMinutes", () => {
+      const expirationTime = new Date(NOW.getTime() + siweConfig.messageExpirationMinutes * 60 * 1000 + 1);
+      expect(check(createMessage({ expirationTime }))?.errorCode).toBe(SiweErrorCode.EXPIRATION_TOO_LONG);
+    });
+
+    it("rejects messages without an expirationTime", () => {
+      expect(check(createMessage({ expirationTime: undefined }))?.errorCode).toBe(SiweErrorCode.EXPIRATION_TOO_LONG);
+    });
+  });
+
+  describe("statement", () => {
+    const capabilities: ReCapAttenuations = { "https://example.com/notes": { "crud/read": [{}] } };
+
+    it("rejects a different statement", () => {
+      expect(check(createMessage({ statement: "Send me your tokens." }))?.errorCode).toBe(
+        SiweErrorCode.STATEMENT_MISMATCH,
+      );
+    });
+
+    it("accepts the configured statement with the ReCap suffix of the requested capabilities", () => {
+      const statement = appendRecapStatement(siweConfig.statement, { att: capabilities, prf: [] });
+      expect(check(createMessage({ statement }), capabilities)).toBeNull();
+    });
+
+    it("rejects a ReCap suffix without matching capabilities", () => {
+      const statement = appendRecapStatement(siweConfig.statement, { att: capabilities, prf: [] });
+      expect(check(createMessage({ statement }))?.errorCode).toBe(SiweErrorCode.STATEMENT_MISMATCH);
+      expect(check(createMessage(), capabilities)?.errorCode).toBe(SiweErrorCode.STATEMENT_MISMATCH);
+    });
+  });
+});
+
+describe("checkRequestId", () => {
+  it("accepts the requestId issued with the nonce", () => {
+    expect(checkRequestId(createMessage(), "request-1", POLICY)).toBeNull();
+  });
+
+  it("rejects a different or missing requestId", () => {
+    expect(checkRequestId(createMessage(), "request-2", POLICY)?.errorCode).toBe(SiweErrorCode.REQUEST_ID_MISMATCH);
+    expect(checkRequestId(createMessage({ requestId: undefined }), "request-1", POLICY)?.errorCode).toBe(
+      SiweErrorCode.REQUEST_ID_MISMATCH,
+    );
+    expect(checkRequestId(createMessage(), undefined, POLICY)?.errorCode).toBe(SiweErrorCode.REQUEST_ID_MISMATCH);
+  });
+
+  it("is skipped when disabled", () => {
+    expect(checkRequestId(createMessage(), "request-2", { ...POLICY, requestId: false })).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * SIWE Message Policy
+ *
+ * viem's verifySiweMessage checks the domain, nonce, time window and signature,
+ * but trusts every other field the client chose to put in the message.
+ * These checks make sure the message says what this server would have asked for:
+ *
+ * 1. `version` is "1"
+ * 2. `uri` has the same origin as the request
+ * 3. `issuedAt` is within `issuedAtSkewSeconds` of the server clock
+ * 4. `expirationTime` is at most `messageExpirationMinutes` after `issuedAt`
+ * 5. `statement` equals `statement` from siwe.config.ts (plus the ReCap suffix, if any)
+ * 6. `requestId` matches the one issued with the nonce (checkRequestId, run once
+ *    the nonce record has been consumed from the nonce store)
+ *
+ * Each check is configured with `messagePolicy` in siwe.config.ts.
+ * Pure functions (no request / session access), covered by siwe.policy.test.ts.
+ *
+ * Used by:
+ * - POST /api/siwe/verify
+ */
+import { SiweErrorCode } from "./siwe";
+import siweConfig from "./siwe.config";
+import { ReCapAttenuations, appendRecapStatement } from "./siwe.recap";
+import { SiweMessage } from "viem/siwe";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Which policy checks to run (see `messagePolicy` in siwe.config.ts)
+ */
+export interface SiweMessagePolicy {
+  uri: boolean;
+  issuedAtSkewSeconds: number;
+  maxExpiration: boolean;
+  statement: boolean;
+  requestId: boolean;
+}
+
+/**
+ * What the server expects, taken from the request being verified
+ */
+export interface SiweMessagePolicyContext {
+  /** Origin of the request, e.g. "https://example.com" */
+  origin: string;
+  /** ReCap capabilities requested by the message (their statement suffix is allowed) */
+  capabilities?: ReCapAttenuations;
+  /** Current time (defaults to now) */
+  now?: Date;
+}
+
+/**
+ * A failed policy check
+ */
+export interface SiweMessagePolicyViolation {
+  errorCode: SiweErrorCode;
+  error: string;
+}
+
+// =============================================================================
+// CHECKS
+// =============================================================================
+
+function getOrigin(uri: string | undefined): string | null {
+  try {
+    return uri ? new URL(uri).origin : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a parsed SIWE message against the message policy (all checks but requestId)
+ * @returns The first violation found, or null if the message is acceptable
+ */
+export function checkMessagePolicy(
+  message: Partial<SiweMessage>,
+  context: SiweMessagePolicyContext,
+  policy: SiweMessagePolicy = siweConfig.messagePolicy,
+): SiweMessagePolicyViolation | null {
+  const now = context.now ?? new Date();
+
+  if (message.version !== "1") {
+    return { errorCode: SiweErrorCode.INVALID_MESSAGE, error: `Unsupported message version: ${message.version}` };
+  }
+
+  if (policy.uri && getOrigin(message.uri) !== context.origin) {
+    return {
+      errorCode: SiweErrorCode.URI_MISMATCH,
+      error: `URI mismatch. Expected a URI on ${context.origin}, Got: ${message.uri}`,
+    };
+  }
+
+  if (policy.issuedAtSkewSeconds > 0) {
+    const skewMs = message.issuedAt ? Math.abs(message.issuedAt.getTime() - now.getTime()) : Infinity;
+    if (skewMs > policy.issuedAtSkewSeconds * 1000) {
+      return {
+        errorCode: SiweErrorCode.ISSUED_AT_OUT_OF_RANGE,
+        error: "Message issuedAt is missing or too far from the server time. Please check your clock and try again.",
+      };
+    }
+  }
+
+  if (policy.maxExpiration) {
+    const maxLifetimeMs = siweConfig.messageExpirationMinutes * 60 * 1000;
+    const lifetimeMs =
+      message.expirationTime && message.issuedAt
+        ? message.expirationTime.getTime() - message.issuedAt.getTime()
+        : Infinity;
+    if (lifetimeMs > maxLifetimeMs) {
+      return {
+        errorCode: SiweErrorCode.EXPIRATION_TOO_LONG,
+        error: `Message must expire at most ${siweConfig.messageExpirationMinutes} minutes after it was issued.`,
+      };
+    }
+  }
+
+  if (policy.statement) {
+    const expectedStatement = context.capabilities
+      ? appendRecapStatement(siweConfig.statement, { att: context.capabilities, prf: [] })
+      : siweConfig.statement;
+    if ((message.statement ?? "") !== expectedStatement) {
+      return { errorCode: SiweErrorCode.STATEMENT_MISMATCH, error: "Statement does not match the expected statement." };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check that the message carries the requestId issued together with its nonce
+ *
+ * @param issuedRequestId - requestId from the consumed nonce record
+ * @returns The violation, or null if the requestId matches (or the check is disabled)
+ */
+export function checkRequestId(
+  message: Partial<SiweMessage>,
+  issuedRequestId: string | undefined,
+  policy: SiweMessagePolicy = siweConfig.messagePolicy,
+): SiweMessagePolicyViolation | null {
+  if (policy.requestId && (!issuedRequestId || message.requestId !== issuedRequestId)) {
+    return {
+      errorCode: SiweErrorCode.REQUEST_ID_MISMATCH,
+      error: "Request ID mismatch. Please request a new nonce and try again.",
+    };
+  }
+
+  return null;
+}
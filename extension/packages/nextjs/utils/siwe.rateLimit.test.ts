@@ -0,0 +1,66 @@
+import { RateLimitRule, createMemoryRateLimiter } from "./siwe.rateLimit";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const RULE: RateLimitRule = { capacity: 2, refillPerMinute: 6 };
+
+describe("createMemoryRateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T12:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("allows a burst up to the capacity", async () => {
+    const limiter = createMemoryRateLimiter();
+
+    expect(await limiter.consume("ip:1", RULE)).toEqual({ allowed: true, retryAfterSeconds: 0 });
+    expect(await limiter.consume("ip:1", RULE)).toEqual({ allowed: true, retryAfterSeconds: 0 });
+    expect(await limiter.consume("ip:1", RULE)).toEqual({ allowed: false, retryAfterSeconds: 10 });
+  });
+
+  it("refills tokens over time", async () => {
+    const limiter = createMemoryRateLimiter();
+    await limiter.consume("ip:1", RULE);
+    await limiter.consume("ip:1", RULE);
+
+    vi.advanceTimersByTime(4_000);
+    expect(await limiter.consume("ip:1", RULE)).toEqual({ allowed: false, retryAfterSeconds: 6 });
+
+    vi.advanceTimersByTime(6_000);
+    expect(await limiter.consume("ip:1", RULE)).toEqual({ allowed: true, retryAfterSeconds: 0 });
+  });
+
+  it("does not refill beyond the capacity", async () => {
+    const limiter = createMemoryRateLimiter();
+    await limiter.consume("ip:1", RULE);
+
+    vi.advanceTimersByTime(60 * 60_000);
+    await limiter.consume("ip:1", RULE);
+    await limiter.consume("ip:1", RULE);
+    expect((await limiter.consume("ip:1", RULE)).allowed).toBe(false);
+  });
+
+  it("keeps a separate bucket per key", async () => {
+    const limiter = createMemoryRateLimiter();
+    await limiter.consume("ip:1", RULE);
+    await limiter.consume("ip:1", RULE);
+
+    expect((await limiter.consume("ip:1", RULE)).allowed).toBe(false);
+    expect((await limiter.consume("ip:2", RULE)).allowed).toBe(true);
+  });
+
+  it("does not take tokens from an empty bucket", async () => {
+    const limiter = createMemoryRateLimiter();
+    await limiter.consume("ip:1", RULE);
+    await limiter.consume("ip:1", RULE);
+
+    // Denied requests must not push the next token further away
+    await limiter.consume("ip:1", RULE);
+    await limiter.consume("ip:1", RULE);
+    vi.advanceTimersByTime(10_000);
+    expect((await limiter.consume("ip:1", RULE)).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * SIWE Rate Limiting
+ *
+ * Throttles the sign-in routes so bots cannot spin nonces or brute-force
+ * error paths. Each limit is a token bucket: a client may burst up to
+ * `capacity` requests, after which tokens refill at `refillPerMinute`.
+ *
+ * Limits (see `rateLimit` in siwe.config.ts):
+ * - nonce: GET /api/siwe/nonce, per client IP (skipped when the IP is unknown)
+ * - verifyIp: POST /api/siwe/verify, per client IP (skipped when the IP is unknown)
+ * - verifyAddress: POST /api/siwe/verify, failed signature checks per address claimed in the message
+ *
+ * The default limiter keeps buckets in memory (per server process).
+ * For multi-instance deployments, implement RateLimiter on top of a shared
+ * database (Redis, ...) and register it with setRateLimiter().
+ */
+import siweConfig from "./siwe.config";
+import { getGlobalSingleton, setGlobalSingleton } from "./siwe.singletons";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Token bucket parameters
+ */
+export interface RateLimitRule {
+  /** Maximum burst size */
+  capacity: number;
+  /** Tokens added back per minute */
+  refillPerMinute: number;
+}
+
+/**
+ * Names of the limits configured in siwe.config.ts
+ */
+export type RateLimitName = "nonce" | "verifyIp" | "verifyAddress";
+
+export interface RateLimitResult {
+  /** Whether the request may proceed (a token was taken) */
+  allowed: boolean;
+  /** Seconds until the next token is available (0 when allowed) */
+  retryAfterSeconds: number;
+}
+
+/**
+ * Storage backend for rate limit buckets
+ */
+export interface RateLimiter {
+  /** Atomically take one token from the bucket identified by `key` */
+  consume(key: string, rule: RateLimitRule): Promise<RateLimitResult>;
+}
+
+// =============================================================================
+// BUILT-IN LIMITER
+// =============================================================================
+
+const PRUNE_INTERVAL_MS = 60_000;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  /** When the bucket will have refilled completely */
+  fullAt: number;
+}
+
+/**
+ * In-memory token bucket limiter (per server process)
+ */
+export function createMemoryRateLimiter(): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+  let lastPrunedAt = Date.now();
+
+  return {
+    async consume(key, rule) {
+      const now = Date.now();
+      const refillPerMs = rule.refillPerMinute / 60_000;
+      const previous = buckets.get(key);
+      const tokens = previous
+        ? Math.min(rule.capacity, previous.tokens + (now - previous.updatedAt) * refillPerMs)
+        : rule.capacity;
+
+      const allowed = tokens >= 1;
+      const remaining = allowed ? tokens - 1 : tokens;
+
+      if (now - lastPrunedAt >= PRUNE_INTERVAL_MS) {
+        pruneFullBuckets(buckets, now);
+        lastPrunedAt = now;
+      }
+      buckets.set(key, { tokens: remaining, updatedAt: now, fullAt: now + (rule.capacity - remaining) / refillPerMs });
+
+      return { allowed, retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs / 1000) };
+    },
+  };
+}
+
+/**
+ * Forget buckets that have refilled completely, so the map does not grow forever
+ * (a full bucket behaves exactly like a missing one)
+ */
+function pruneFullBuckets(buckets: Map<string, Bucket>, now: number) {
+  for (const [key, bucket] of buckets) {
+    if (bucket.fullAt <= now) {
+      buckets.delete(key);
+    }
+  }
+}
+
+// =============================================================================
+// LIMITER REGISTRY
+// =============================================================================
+
+/**
+ * Get the rate limiter (in-memory unless one was registered via setRateLimiter)
+ */
+export function getRateLimiter(): RateLimiter {
+  return getGlobalSingleton<RateLimiter>("rateLimiter", createMemoryRateLimiter);
+}
+
+/**
+ * Replace the rate limiter with a custom implementation
+ * Call once at startup, e.g. from instrumentation.ts
+ */
+export function setRateLimiter(limiter: RateLimiter) {
+  setGlobalSingleton("rateLimiter", limiter);
+}
+
+let hasWarnedUnknownKey = false;
+
+/**
+ * Take a token from one of the configured limits
+ * Always allowed when rate limiting is disabled. Requests without a key (unknown client IP,
+ * e.g. without `trustProxy`) skip the limit: a shared bucket would let one client lock
+ * everyone out. The per-address limit still applies to them.
+ *
+ * @param name - Which limit to apply
+ * @param key - What to limit by (client IP or address)
+ */
+export async function checkRateLimit(name: RateLimitName, key: string | undefined): Promise<RateLimitResult> {
+  if (!siweConfig.rateLimit.enabled) {
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  if (!key) {
+    if (!hasWarnedUnknownKey) {
+      hasWarnedUnknownKey = true;
+      console.warn(
+        "SIWE rate limiting: the client IP is unknown, so per-IP limits are skipped. " +
+          "Enable `trustProxy` in siwe.config.ts when the app runs behind a proxy.",
+      );
+    }
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  return getRateLimiter().consume(`${name}:${key.toLowerCase()}`, siweConfig.rateLimit[name]);
+}
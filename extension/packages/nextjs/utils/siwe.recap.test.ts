@@ -0,0 +1,121 @@
+import {
+  MAX_RECAP_ABILITIES,
+  MAX_RECAP_SIZE,
+  MAX_RECAP_TARGETS,
+  RECAP_URI_PREFIX,
+  ReCapCapability,
+  decodeRecap,
+  encodeRecap,
+  hasCapability,
+  validateRecap,
+} from "./siwe.recap";
+import { describe, expect, it } from "vitest";
+
+const RESOURCE = "https://example.com/notes";
+
+const CAPABILITY: ReCapCapability = {
+  att: { [RESOURCE]: { "crud/read": [{}], "crud/update": [{ max: 5 }] } },
+  prf: [],
+};
+
+describe("encodeRecap / decodeRecap", () => {
+  it("round-trips a capability object", () => {
+    const uri = encodeRecap(CAPABILITY);
+
+    expect(uri.startsWith(RECAP_URI_PREFIX)).toBe(true);
+    expect(decodeRecap(uri)).toEqual(CAPABILITY);
+  });
+
+  it("encodes canonically (object keys sorted)", () => {
+    const reordered: ReCapCapability = {
+      prf: [],
+      att: { [RESOURCE]: { "crud/update": [{ max: 5 }], "crud/read": [{}] } },
+    };
+
+    expect(encodeRecap(reordered)).toBe(encodeRecap(CAPABILITY));
+  });
+
+  it("uses base64url without padding", () => {
+    expect(encodeRecap(CAPABILITY).slice(RECAP_URI_PREFIX.length)).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it("rejects URIs that are not ReCaps", () => {
+    expect(() => decodeRecap("https://example.com")).toThrow("Not a ReCap URI");
+  });
+
+  it("rejects malformed encodings", () => {
+    expect(() => decodeRecap(`${RECAP_URI_PREFIX}!!!`)).toThrow("Invalid ReCap encoding");
+    expect(() => decodeRecap(`${RECAP_URI_PREFIX}${btoa("not json")}`)).toThrow("Invalid ReCap encoding");
+  });
+
+  it("validates decoded objects", () => {
+    expect(() => decodeRecap(`${RECAP_URI_PREFIX}${btoa(JSON.stringify({ att: {} }))}`)).toThrow("'prf'");
+  });
+
+  it("refuses to encode invalid objects", () => {
+    expect(() => encodeRecap({ att: { [RESOURCE]: {} }, prf: [] })).toThrow("no abilities");
+  });
+});
+
+describe("validateRecap", () => {
+  const validate = (capability: unknown) => () => validateRecap(capability as ReCapCapability);
+
+  it("accepts a valid capability object", () => {
+    expect(validate(CAPABILITY)).not.toThrow();
+  });
+
+  it("requires att to be a plain object", () => {
+    expect(validate(null)).toThrow("missing 'att' object");
+    expect(validate({ prf: [] })).toThrow("missing 'att' object");
+    expect(validate({ att: [], prf: [] })).toThrow("missing 'att' object");
+  });
+
+  it("requires prf to be an array of strings", () => {
+    expect(validate({ att: {} })).toThrow("'prf' must be an array of strings");
+    expect(validate({ att: {}, prf: [1] })).toThrow("'prf' must be an array of strings");
+  });
+
+  it("requires resources to be URIs", () => {
+    expect(validate({ att: { notes: { "crud/read": [{}] } }, prf: [] })).toThrow("is not a URI");
+  });
+
+  it("requires <namespace>/<ability> strings", () => {
+    expect(validate({ att: { [RESOURCE]: { read: [{}] } }, prf: [] })).toThrow("is not a <namespace>/<ability>");
+  });
+
+  it("requires caveats to be arrays of objects", () => {
+    expect(validate({ att: { [RESOURCE]: { "crud/read": {} } }, prf: [] })).toThrow("must be an array of objects");
+    expect(validate({ att: { [RESOURCE]: { "crud/read": ["x"] } }, prf: [] })).toThrow("must be an array of objects");
+  });
+
+  it("limits the number of resources", () => {
+    const att = Object.fromEntries(
+      Array.from({ length: MAX_RECAP_TARGETS + 1 }, (_, i) => [`${RESOURCE}/${i}`, { "crud/read": [{}] }]),
+    );
+    expect(validate({ att, prf: [] })).toThrow("too many resources");
+  });
+
+  it("limits the number of abilities per resource", () => {
+    const abilities = Object.fromEntries(Array.from({ length: MAX_RECAP_ABILITIES + 1 }, (_, i) => [`crud/a${i}`, []]));
+    expect(validate({ att: { [RESOURCE]: abilities }, prf: [] })).toThrow("too many abilities");
+  });
+
+  it("limits the overall size", () => {
+    const caveats = [{ note: "x".repeat(MAX_RECAP_SIZE) }];
+    expect(validate({ att: { [RESOURCE]: { "crud/read": caveats } }, prf: [] })).toThrow("at most");
+  });
+});
+
+describe("hasCapability", () => {
+  it("checks exact and wildcard abilities", () => {
+    expect(hasCapability(CAPABILITY.att, RESOURCE, "crud/read")).toBe(true);
+    expect(hasCapability(CAPABILITY.att, RESOURCE, "crud/delete")).toBe(false);
+    expect(hasCapability({ [RESOURCE]: { "crud/*": [] } }, RESOURCE, "crud/delete")).toBe(true);
+    expect(hasCapability({ [RESOURCE]: { "*/*": [] } }, RESOURCE, "msg/send")).toBe(true);
+  });
+
+  it("is false for other resources or without capabilities", () => {
+    expect(hasCapability(CAPABILITY.att, "https://example.com/other", "crud/read")).toBe(false);
+    expect(hasCapability(undefined, RESOURCE, "crud/read")).toBe(false);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * ReCap (EIP-5573) Utilities
+ *
+ * ReCaps let a SIWE message grant fine-grained capabilities, e.g. `crud/read`
+ * on a specific URI. The capability object is encoded into a `urn:recap:`
+ * resource (always the last resource of the message) and summarized in a
+ * human-readable suffix appended to the statement.
+ *
+ * This file contains:
+ * 1. Types for ReCap capability objects
+ * 2. Encoding / decoding of `urn:recap:` URIs
+ * 3. Statement generation and validation
+ * 4. Helpers to check granted capabilities
+ *
+ * Used by:
+ * - useSiwe hook (signIn({ capabilities }))
+ * - POST /api/siwe/verify
+ *
+ * @see https://eips.ethereum.org/EIPS/eip-5573
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Restrictions attached to an ability (an empty object means "no restrictions")
+ */
+export type ReCapCaveat = Record<string, unknown>;
+
+/**
+ * Abilities granted on one resource, keyed by `<namespace>/<ability>` (e.g. "crud/read")
+ */
+export type ReCapAbilities = Record<string, ReCapCaveat[]>;
+
+/**
+ * Capabilities keyed by the target resource URI
+ */
+export type ReCapAttenuations = Record<string, ReCapAbilities>;
+
+/**
+ * A decoded ReCap object
+ */
+export interface ReCapCapability {
+  /** Attenuations: resource URI => abilities */
+  att: ReCapAttenuations;
+  /** Proofs (CIDs) of delegated capabilities */
+  prf: string[];
+}
+
+/**
+ * Prefix of ReCap resource URIs
+ */
+export const RECAP_URI_PREFIX = "urn:recap:";
+
+/**
+ * Beginning of the statement suffix required by EIP-5573
+ */
+const RECAP_STATEMENT_PREFIX = "I further authorize the stated URI to perform the following actions on my behalf:";
+
+const ABILITY_PATTERN = /^[a-zA-Z0-9.*_+-]+\/[a-zA-Z0-9.*_+-]+$/;
+
+/**
+ * Limits on a capability object. Granted capabilities are stored in the
+ * session cookie, which browsers cap at about 4KB.
+ */
+export const MAX_RECAP_TARGETS = 10;
+export const MAX_RECAP_TARGET_LENGTH = 256;
+export const MAX_RECAP_ABILITIES = 10;
+/** Maximum length of the canonical JSON of the attenuations */
+export const MAX_RECAP_SIZE = 2048;
+
+/**
+ * Whether a value is a plain object (not an array, null or a class instance)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+// =============================================================================
+// ENCODING
+// =============================================================================
+
+/**
+ * JSON.stringify with object keys sorted (canonical form required by EIP-5573)
+ */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function toBase64Url(text: string): string {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join("");
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+/**
+ * Check whether a resource URI is a ReCap
+ */
+export function isRecapUri(uri: string): boolean {
+  return uri.startsWith(RECAP_URI_PREFIX);
+}
+
+/**
+ * Encode a capability object as a `urn:recap:` resource URI
+ */
+export function encodeRecap(capability: ReCapCapability): string {
+  validateRecap(capability);
+  return `${RECAP_URI_PREFIX}${toBase64Url(canonicalize(capability))}`;
+}
+
+/**
+ * Decode a `urn:recap:` resource URI
+ * @throws Error if the URI is not a well-formed ReCap
+ */
+export function decodeRecap(uri: string): ReCapCapability {
+  if (!isRecapUri(uri)) {
+    throw new Error(`Not a ReCap URI: ${uri}`);
+  }
+
+  let capability: ReCapCapability;
+  try {
+    capability = JSON.parse(fromBase64Url(uri.slice(RECAP_URI_PREFIX.length)));
+  } catch {
+    throw new Error("Invalid ReCap encoding. Expected base64url-encoded JSON.");
+  }
+
+  validateRecap(capability);
+  return capability;
+}
+
+/**
+ * Validate the shape and size of a capability object (see MAX_RECAP_* for the limits)
+ * @throws Error describing the first problem found
+ */
+export function validateRecap(capability: ReCapCapability): void {
+  if (!isPlainObject(capability) || !isPlainObject(capability.att)) {
+    throw new Error("Invalid ReCap: missing 'att' object");
+  }
+  if (!Array.isArray(capability.prf) || capability.prf.some(proof => typeof proof !== "string")) {
+    throw new Error("Invalid ReCap: 'prf' must be an array of strings");
+  }
+
+  const targets = Object.entries(capability.att);
+  if (targets.length > MAX_RECAP_TARGETS) {
+    throw new Error(`Invalid ReCap: too many resources (max ${MAX_RECAP_TARGETS})`);
+  }
+
+  for (const [resource, abilities] of targets) {
+    if (!/^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(resource)) {
+      throw new Error(`Invalid ReCap: '${resource}' is not a URI`);
+    }
+    if (resource.length > MAX_RECAP_TARGET_LENGTH) {
+      throw new Error(`Invalid ReCap: resource URIs must be at most ${MAX_RECAP_TARGET_LENGTH} characters`);
+    }
+    if (!isPlainObject(abilities) || Object.keys(abilities).length === 0) {
+      throw new Error(`Invalid ReCap: no abilities for '${resource}'`);
+    }
+    if (Object.keys(abilities).length > MAX_RECAP_ABILITIES) {
+      throw new Error(`Invalid ReCap: too many abilities for '${resource}' (max ${MAX_RECAP_ABILITIES})`);
+    }
+    for (const [ability, caveats] of Object.entries(abilities)) {
+      if (!ABILITY_PATTERN.test(ability)) {
+        throw new Error(`Invalid ReCap: '${ability}' is not a <namespace>/<ability> string`);
+      }
+      if (!Array.isArray(caveats) || !caveats.every(isPlainObject)) {
+        throw new Error(`Invalid ReCap: caveats of '${ability}' must be an array of objects`);
+      }
+    }
+  }
+
+  if (canonicalize(capability.att).length > MAX_RECAP_SIZE) {
+    throw new Error(`Invalid ReCap: capabilities must be at most ${MAX_RECAP_SIZE} characters as JSON`);
+  }
+}
+
+// =============================================================================
+// STATEMENT
+// =============================================================================
+
+/**
+ * Build the human-readable statement for a capability object, e.g.
+ * "I further authorize the stated URI to perform the following actions on my behalf:
+ *  (1) 'crud': 'read', 'update' for 'https://example.com/notes'."
+ */
+export function getRecapStatement(capability: ReCapCapability): string {
+  let statement = RECAP_STATEMENT_PREFIX;
+  let section = 1;
+
+  for (const resource of Object.keys(capability.att).sort()) {
+    const abilitiesByNamespace: Record<string, string[]> = {};
+
+    for (const ability of Object.keys(capability.att[resource]).sort()) {
+      const [namespace, name] = ability.split("/");
+      (abilitiesByNamespace[namespace] ??= []).push(name);
+    }
+
+    for (const [namespace, names] of Object.entries(abilitiesByNamespace)) {
+      statement += ` (${section}) '${namespace}': ${names.map(name => `'${name}'`).join(", ")} for '${resource}'.`;
+      section++;
+    }
+  }
+
+  return statement;
+}
+
+/**
+ * Append the ReCap statement to an application statement
+ */
+export function appendRecapStatement(statement: string | undefined, capability: ReCapCapability): string {
+  const recapStatement = getRecapStatement(capability);
+  return statement ? `${statement} ${recapStatement}` : recapStatement;
+}
+
+/**
+ * Check that a statement ends with the ReCap statement for a capability object
+ */
+export function hasRecapStatement(statement: string | undefined, capability: ReCapCapability): boolean {
+  return !!statement && statement.endsWith(getRecapStatement(capability));
+}
+
+// =============================================================================
+// CAPABILITY CHECKS
+// =============================================================================
+
+/**
+ * Check whether an ability was granted on a resource
+ * Wildcard abilities are honored, e.g. "crud/*" grants "crud/read"
+ *
+ * @example
+ * ```ts
+ * if (!hasCapability(session.capabilities, "https://example.com/notes", "crud/update")) {
+ *   return Response.json({ error: "Forbidden" }, { status: 403 });
+ * }
+ * ```
+ */
+export function hasCapability(capabilities: ReCapAttenuations | undefined, resource: string, ability: string): boolean {
+  const abilities = capabilities?.[resource];
+  if (!abilities) return false;
+
+  const [namespace] = ability.split("/");
+  return [ability, `${namespace}/*`, "*/*"].some(candidate => candidate in abilities);
+}
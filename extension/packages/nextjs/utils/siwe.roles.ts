@@ -0,0 +1,159 @@
+/**
+ * SIWE Token-Gated Roles
+ *
+ * Derives session roles from on-chain state when a user signs in.
+ * Rules are declared in `roles` (siwe.config.ts) and evaluated against the
+ * chain the user signed in on, using the same public client that verified
+ * the signature. Roles are stored in the session (and in access tokens) and are
+ * re-evaluated whenever the session moves to another address or chain, and on
+ * every bearer token refresh.
+ *
+ * Used by:
+ * - POST /api/siwe/verify
+ * - PATCH /api/siwe/session (linked wallet and chain switches)
+ * - refreshTokens (utils/siwe.jwt.ts)
+ */
+import { RPC_TIMEOUT_MS, withTimeout } from "./siwe.chains";
+import siweConfig from "./siwe.config";
+import { Address, Hex, PublicClient, erc20Abi, erc721Abi, parseAbi } from "viem";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface BaseRoleRule {
+  /** Role granted when the rule matches */
+  role: string;
+  /** Only evaluate the rule when signing in on this chain (defaults to any chain) */
+  chainId?: number;
+}
+
+/**
+ * Grant a role to holders of at least `minBalance` of an ERC-20 token (in base units)
+ */
+export interface Erc20RoleRule extends BaseRoleRule {
+  type: "erc20";
+  token: Address;
+  minBalance: bigint;
+}
+
+/**
+ * Grant a role to owners of an ERC-721 collection
+ */
+export interface Erc721RoleRule extends BaseRoleRule {
+  type: "erc721";
+  token: Address;
+  /** Minimum number of NFTs owned @default 1n */
+  minBalance?: bigint;
+}
+
+/**
+ * Grant a role to owners of an ERC-1155 token id
+ */
+export interface Erc1155RoleRule extends BaseRoleRule {
+  type: "erc1155";
+  token: Address;
+  tokenId: bigint;
+  /** Minimum amount owned @default 1n */
+  minBalance?: bigint;
+}
+
+/**
+ * Grant a role to accounts that hold a role in an OpenZeppelin AccessControl contract
+ */
+export interface HasRoleRoleRule extends BaseRoleRule {
+  type: "hasRole";
+  contract: Address;
+  /** bytes32 role id, e.g. keccak256(toHex("MINTER_ROLE")) */
+  roleId: Hex;
+}
+
+/**
+ * A rule that derives a session role from on-chain state
+ */
+export type SiweRoleRule = Erc20RoleRule | Erc721RoleRule | Erc1155RoleRule | HasRoleRoleRule;
+
+const erc1155BalanceOfAbi = parseAbi(["function balanceOf(address account, uint256 id) view returns (uint256)"]);
+const accessControlAbi = parseAbi(["function hasRole(bytes32 role, address account) view returns (bool)"]);
+
+// =============================================================================
+// RESOLVER
+// =============================================================================
+
+/**
+ * Evaluate a single rule for an address
+ */
+async function matchesRule(client: PublicClient, rule: SiweRoleRule, address: Address): Promise<boolean> {
+  switch (rule.type) {
+    case "erc20": {
+      const balance = await client.readContract({
+        address: rule.token,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [address],
+      });
+      return balance >= rule.minBalance;
+    }
+    case "erc721": {
+      const balance = await client.readContract({
+        address: rule.token,
+        abi: erc721Abi,
+        functionName: "balanceOf",
+        args: [address],
+      });
+      return balance >= (rule.minBalance ?? 1n);
+    }
+    case "erc1155": {
+      const balance = await client.readContract({
+        address: rule.token,
+        abi: erc1155BalanceOfAbi,
+        functionName: "balanceOf",
+        args: [address, rule.tokenId],
+      });
+      return balance >= (rule.minBalance ?? 1n);
+    }
+    case "hasRole":
+      return client.readContract({
+        address: rule.contract,
+        abi: accessControlAbi,
+        functionName: "hasRole",
+        args: [rule.roleId, address],
+      });
+  }
+}
+
+/**
+ * Resolve the roles of an address from the rules in siwe.config.ts
+ * A rule that fails to evaluate (e.g. RPC error, or no answer within RPC_TIMEOUT_MS)
+ * does not grant its role.
+ *
+ * @param client - Public client for the chain the user signed in on
+ * @param address - The authenticated address
+ * @returns Unique list of granted roles
+ */
+export async function resolveRoles(
+  client: PublicClient,
+  address: Address,
+  rules: readonly SiweRoleRule[] = siweConfig.roles,
+): Promise<string[]> {
+  const chainId = client.chain?.id;
+  const applicableRules = rules.filter(rule => rule.chainId === undefined || rule.chainId === chainId);
+
+  const results = await Promise.allSettled(
+    applicableRules.map(rule =>
+      withTimeout(matchesRule(client, rule, address), RPC_TIMEOUT_MS, `Role rule "${rule.role}"`),
+    ),
+  );
+
+  const roles = new Set<string>();
+  results.forEach((result, index) => {
+    const rule = applicableRules[index];
+    if (result.status === "rejected") {
+      console.error(`Failed to evaluate role rule "${rule.role}" (${rule.type}):`, result.reason);
+    } else if (result.value) {
+      roles.add(rule.role);
+    }
+  });
+
+  return [...roles];
+}
@@ -0,0 +1,379 @@
+/**
+ * SIWE Server Utilities
+ *
+ * This file contains server-only helpers for protecting your app with the
+ * session created by /api/siwe/verify:
+ * 1. getSiweSession / getAuthenticatedSiweSession - Read the iron-session for the current request
+ * 2. withSiweAuth - Wrap App Router route handlers (401 JSON when signed out)
+ * 3. requireSiweSession - Guard server components and server actions (redirect when signed out)
+ * 4. getSiweIdentity / withSiweIdentity - Accept either the session cookie or an
+ *    `Authorization: Bearer` access token (see utils/siwe.jwt.ts)
+ * 5. getInitialSiweSession - Read the session in a server component to hydrate SiweProvider
+ *
+ * Kept separate from utils/siwe.ts because it depends on next/headers,
+ * which cannot be imported from client components like useSiwe.
+ */
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { NextRequest, NextResponse } from "next/server";
+import { IronSession, getIronSession } from "iron-session";
+import { Address } from "viem";
+import {
+  AuthenticatedSiweSessionData,
+  SESSION_ABSOLUTE_MAX_AGE_MS,
+  SESSION_MAX_AGE_MS,
+  SiweErrorCode,
+  SiweSessionData,
+  UNAUTHORIZED_ERROR,
+  defaultSession,
+  isAuthenticated,
+  isDomainAllowed,
+  sessionOptions,
+} from "~~/utils/siwe";
+import { isSessionAccountLinked } from "~~/utils/siwe.accountStore";
+import siweConfig from "~~/utils/siwe.config";
+import { SiweAppData } from "~~/utils/siwe.hooks";
+import { verifyAccessToken } from "~~/utils/siwe.jwt";
+import { isSessionActive } from "~~/utils/siwe.sessionStore";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * An iron-session that is known to be signed in
+ */
+export type AuthenticatedSiweSession<TData extends object = SiweAppData> = IronSession<SiweSessionData<TData>> &
+  AuthenticatedSiweSessionData<TData>;
+
+/**
+ * A route handler that only runs for signed in users
+ */
+export type SiweAuthHandler<TContext> = (
+  request: NextRequest,
+  session: AuthenticatedSiweSession,
+  context: TContext,
+) => Response | Promise<Response>;
+
+/**
+ * The authenticated caller, whether signed in with a cookie or a bearer token
+ */
+export interface SiweIdentity {
+  address: Address;
+  chainId: number;
+  roles: string[];
+  /** How the caller authenticated */
+  source: "cookie" | "bearer";
+}
+
+/**
+ * A route handler that accepts cookie or bearer authentication
+ */
+export type SiweIdentityHandler<TContext> = (
+  request: NextRequest,
+  identity: SiweIdentity,
+  context: TContext,
+) => Response | Promise<Response>;
+
+// =============================================================================
+// SESSION ACCESS
+// =============================================================================
+
+/**
+ * Get the SIWE session for the current request
+ * Works in route handlers, server components and server actions
+ */
+export async function getSiweSession(): Promise<IronSession<SiweSessionData>> {
+  return getIronSession<SiweSessionData>(await cookies(), sessionOptions);
+}
+
+/**
+ * Get the current session if it is signed in and has not been revoked
+ * (revocation is only tracked when a session store is enabled, and sessions
+ * of a wallet unlinked from its user are rejected when an account store is enabled)
+ * @returns The authenticated session, or null
+ */
+export async function getAuthenticatedSiweSession(): Promise<AuthenticatedSiweSession | null> {
+  const session = await getSiweSession();
+
+  if (!isAuthenticated(session) || !(await isSessionActive(session)) || !(await isSessionAccountLinked(session))) {
+    return null;
+  }
+
+  return session;
+}
+
+/**
+ * Renew an active session (sliding expiration)
+ * Updates lastSeenAt and re-issues the cookie, capped at the absolute session limit.
+ * Only call from route handlers or server actions (server components cannot set cookies).
+ */
+export async function renewSiweSession(session: AuthenticatedSiweSession): Promise<void> {
+  const now = Date.now();
+  const absoluteRemainingMs = session.signedInAt! + SESSION_ABSOLUTE_MAX_AGE_MS - now;
+  const maxAgeSeconds = Math.floor(Math.min(SESSION_MAX_AGE_MS, absoluteRemainingMs) / 1000);
+
+  session.lastSeenAt = now;
+  session.updateConfig({
+    ...sessionOptions,
+    cookieOptions: { ...sessionOptions.cookieOptions, maxAge: maxAgeSeconds },
+  });
+  await session.save();
+}
+
+/**
+ * Session state returned to the client (GET /api/siwe/session)
+ * Leaves out server-only fields such as the nonce and the session id.
+ */
+export function toSiweSessionResponse(session: AuthenticatedSiweSessionData) {
+  return {
+    isLoggedIn: true,
+    address: session.address,
+    chainId: session.chainId,
+    signedInAt: session.signedInAt,
+    lastSeenAt: session.lastSeenAt,
+    resources: session.resources ?? [],
+    capabilities: session.capabilities,
+    roles: session.roles ?? [],
+    ensName: session.ensName,
+    ensAvatar: session.ensAvatar,
+    data: session.data,
+    userId: session.userId,
+    linkedAddresses: session.linkedAddresses ?? [],
+  };
+}
+
+/**
+ * Read the session in a server component, for SSR hydration of SiweProvider
+ * (see SiweHydration in components/SiweProvider.tsx)
+ * @returns The same data as GET /api/siwe/session
+ */
+export async function getInitialSiweSession(): Promise<SiweSessionData> {
+  const session = await getAuthenticatedSiweSession();
+  return session ? toSiweSessionResponse(session) : defaultSession;
+}
+
+/**
+ * The domain and origin a request was made to
+ */
+export interface SiweRequestDomain {
+  /** host[:port], e.g. "example.com" */
+  domain: string;
+  /** e.g. "https://example.com" */
+  origin: string;
+}
+
+/**
+ * Values of a header set by a reverse proxy (comma-separated lists are split)
+ * Empty unless `trustProxy` is enabled, as clients can send these headers too.
+ * Used for every proxy header, so domain detection and client IPs trust the same requests.
+ */
+function getProxyHeaderValues(request: Request, header: string): string[] {
+  if (!siweConfig.trustProxy) return [];
+
+  return (request.headers.get(header) ?? "")
+    .split(",")
+    .map(value => value.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Determine the domain and origin a request was made to
+ * Uses X-Forwarded-Host / X-Forwarded-Proto when `trustProxy` is enabled.
+ * @returns The domain and origin, or null if there is no host or it is not in `allowedDomains`
+ */
+export function getRequestDomain(request: NextRequest): SiweRequestDomain | null {
+  const forwardedHost = getProxyHeaderValues(request, "x-forwarded-host")[0];
+  const forwardedProto = getProxyHeaderValues(request, "x-forwarded-proto")[0];
+
+  const domain = forwardedHost ?? request.headers.get("host");
+  const protocol = forwardedProto ? `${forwardedProto}:` : request.nextUrl.protocol;
+
+  if (!domain || !isDomainAllowed(domain)) {
+    return null;
+  }
+
+  return { domain, origin: `${protocol}//${domain}` };
+}
+
+/**
+ * Client IP address from proxy headers (only with `trustProxy`, as clients can send them too)
+ * Proxies append to X-Forwarded-For, so the left entries are client-controlled: the client IP
+ * is the right-most hop that was not added by one of the `trustedProxyCount` proxies.
+ * @returns The IP, or undefined if unknown (rate limits then share one bucket)
+ */
+export function getClientIp(request: Request): string | undefined {
+  const hops = getProxyHeaderValues(request, "x-forwarded-for");
+  if (hops.length > 0) {
+    return hops[Math.max(hops.length - siweConfig.trustedProxyCount, 0)];
+  }
+
+  return getProxyHeaderValues(request, "x-real-ip")[0];
+}
+
+/**
+ * Error response shared by all /api/siwe/* routes: { ok: false, error, errorCode }
+ */
+export function siweErrorResponse(
+  errorCode: SiweErrorCode,
+  error: string,
+  status: number,
+  headers?: HeadersInit,
+): NextResponse {
+  return NextResponse.json({ ok: false, error, errorCode }, { status, headers });
+}
+
+/**
+ * Consistent 401 response returned to unauthenticated API callers
+ */
+export function unauthorizedResponse(): NextResponse {
+  return siweErrorResponse(SiweErrorCode.UNAUTHORIZED, UNAUTHORIZED_ERROR, 401);
+}
+
+/**
+ * 429 response for rate-limited requests (see utils/siwe.rateLimit.ts)
+ */
+export function tooManyRequestsResponse(retryAfterSeconds: number): NextResponse {
+  return siweErrorResponse(
+    SiweErrorCode.RATE_LIMITED,
+    `Too many attempts. Please try again in ${retryAfterSeconds} seconds.`,
+    429,
+    { "Retry-After": String(retryAfterSeconds) },
+  );
+}
+
+/**
+ * Response for session management routes when no session store is enabled
+ */
+export function sessionStoreDisabledResponse(): NextResponse {
+  return siweErrorResponse(
+    SiweErrorCode.SESSION_STORE_DISABLED,
+    "Session store is not enabled. Set `sessionStore` in siwe.config.ts.",
+    501,
+  );
+}
+
+/**
+ * Response for the linked account routes when no account store is enabled
+ */
+export function accountLinkingDisabledResponse(): NextResponse {
+  return siweErrorResponse(
+    SiweErrorCode.ACCOUNT_LINKING_DISABLED,
+    "Account linking is not enabled. Set `accountStore` in siwe.config.ts.",
+    501,
+  );
+}
+
+/**
+ * Response for the token routes when bearer tokens are disabled
+ */
+export function tokenModeDisabledResponse(status = 404): NextResponse {
+  return siweErrorResponse(
+    SiweErrorCode.TOKEN_MODE_DISABLED,
+    "Token mode is disabled. Set `jwt.enabled` in siwe.config.ts.",
+    status,
+  );
+}
+
+// =============================================================================
+// ROUTE PROTECTION
+// =============================================================================
+
+/**
+ * Protect an App Router route handler with SIWE authentication.
+ * The handler receives the authenticated session as its second argument.
+ *
+ * @example
+ * ```ts
+ * // app/api/protected/route.ts
+ * export const GET = withSiweAuth(async (request, session) => {
+ *   return Response.json({ message: `Hello ${session.address}!` });
+ * });
+ * ```
+ */
+export function withSiweAuth<TContext = unknown>(handler: SiweAuthHandler<TContext>) {
+  return async (request: NextRequest, context: TContext): Promise<Response> => {
+    const session = await getAuthenticatedSiweSession();
+
+    if (!session) {
+      return unauthorizedResponse();
+    }
+
+    return handler(request, session, context);
+  };
+}
+
+/**
+ * Require a SIWE session in a server component or server action.
+ * Redirects to the sign in page when the user is not authenticated.
+ *
+ * @param redirectTo - Where to send unauthenticated users (defaults to `signInPath` from siwe.config.ts)
+ * @returns The authenticated session
+ *
+ * @example
+ * ```tsx
+ * // app/dashboard/page.tsx
+ * export default async function Dashboard() {
+ *   const session = await requireSiweSession();
+ *   return <p>Signed in as {session.address}</p>;
+ * }
+ * ```
+ */
+export async function requireSiweSession(
+  redirectTo: string = siweConfig.signInPath,
+): Promise<AuthenticatedSiweSession> {
+  const session = await getAuthenticatedSiweSession();
+
+  if (!session) {
+    redirect(redirectTo);
+  }
+
+  return session;
+}
+
+// =============================================================================
+// BEARER TOKEN SUPPORT
+// =============================================================================
+
+/**
+ * Authenticate a request with either an `Authorization: Bearer` access token
+ * or the session cookie. A bearer header, if present, takes precedence.
+ * @returns The caller's identity, or null if unauthenticated
+ */
+export async function getSiweIdentity(request: Request): Promise<SiweIdentity | null> {
+  const authorization = request.headers.get("authorization");
+
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    if (!siweConfig.jwt.enabled) return null;
+    const subject = await verifyAccessToken(authorization.slice("bearer ".length).trim());
+    return subject ? { ...subject, source: "bearer" } : null;
+  }
+
+  const session = await getAuthenticatedSiweSession();
+  if (!session) return null;
+
+  return { address: session.address, chainId: session.chainId, roles: session.roles ?? [], source: "cookie" };
+}
+
+/**
+ * Protect a route handler for both browsers (cookie) and API clients (bearer token).
+ *
+ * @example
+ * ```ts
+ * // app/api/profile/route.ts
+ * export const GET = withSiweIdentity(async (request, identity) => {
+ *   return Response.json({ address: identity.address, via: identity.source });
+ * });
+ * ```
+ */
+export function withSiweIdentity<TContext = unknown>(handler: SiweIdentityHandler<TContext>) {
+  return async (request: NextRequest, context: TContext): Promise<Response> => {
+    const identity = await getSiweIdentity(request);
+
+    if (!identity) {
+      return unauthorizedResponse();
+    }
+
+    return handler(request, identity, context);
+  };
+}
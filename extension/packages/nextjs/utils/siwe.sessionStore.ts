@@ -0,0 +1,191 @@
+/**
+ * SIWE Session Store
+ *
+ * Optional server-side registry of signed in sessions. The session cookie
+ * carries a random session id; a session is only valid while its record
+ * exists, which makes revocation ("sign out everywhere") possible.
+ *
+ * Used by:
+ * - POST /api/siwe/verify (register)
+ * - /api/siwe/session and /api/siwe/sessions (list / revoke)
+ * - withSiweAuth / requireSiweSession (check)
+ *
+ * Built-in stores are selected with `sessionStore` in siwe.config.ts.
+ * For multi-instance deployments, implement SessionStore on top of a shared
+ * database and register it with setSessionStore().
+ */
+import { SESSION_ABSOLUTE_MAX_AGE_MS, SiweSessionData, SiweSessionRecord } from "./siwe";
+import siweConfig from "./siwe.config";
+import { getGlobalSingleton, setGlobalSingleton } from "./siwe.singletons";
+import { createJsonFile } from "./siwe.storage";
+import { Address } from "viem";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Storage backend for session records
+ * Implementations must not return expired records.
+ */
+export interface SessionStore {
+  /** Save a new session record */
+  create(record: SiweSessionRecord): Promise<void>;
+  /** Get a session record by id */
+  get(id: string): Promise<SiweSessionRecord | null>;
+  /** List all active sessions of an address */
+  listByAddress(address: Address): Promise<SiweSessionRecord[]>;
+  /** Delete a session record */
+  revoke(id: string): Promise<void>;
+  /** Delete all session records of an address. Resolves with the number of revoked sessions */
+  revokeAllForAddress(address: Address): Promise<number>;
+}
+
+type SessionRecords = Record<string, SiweSessionRecord>;
+
+// =============================================================================
+// BUILT-IN STORES
+// =============================================================================
+
+const isSameAddress = (a: Address, b: Address) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Session store operations on a plain id => record map
+ * Shared by the memory and file stores
+ */
+function createRecordOperations(records: SessionRecords) {
+  const now = Date.now();
+
+  for (const [id, record] of Object.entries(records)) {
+    if (record.expiresAt <= now) {
+      delete records[id];
+    }
+  }
+
+  return {
+    get: (id: string) => records[id] ?? null,
+    listByAddress: (address: Address) =>
+      Object.values(records)
+        .filter(record => isSameAddress(record.address, address))
+        .sort((a, b) => b.createdAt - a.createdAt),
+    revokeAllForAddress: (address: Address) => {
+      const ids = Object.keys(records).filter(id => isSameAddress(records[id].address, address));
+      ids.forEach(id => delete records[id]);
+      return ids.length;
+    },
+  };
+}
+
+/**
+ * In-memory session store (per server process)
+ */
+export function createMemorySessionStore(): SessionStore {
+  const records: SessionRecords = {};
+
+  return {
+    async create(record) {
+      records[record.id] = record;
+    },
+    async get(id) {
+      return createRecordOperations(records).get(id);
+    },
+    async listByAddress(address) {
+      return createRecordOperations(records).listByAddress(address);
+    },
+    async revoke(id) {
+      delete records[id];
+    },
+    async revokeAllForAddress(address) {
+      return createRecordOperations(records).revokeAllForAddress(address);
+    },
+  };
+}
+
+/**
+ * JSON file session store (survives server restarts)
+ */
+export function createFileSessionStore(fileName = "sessions.json"): SessionStore {
+  const file = createJsonFile<SessionRecords>(fileName, () => ({}));
+
+  return {
+    async create(record) {
+      await file.update(records => {
+        records[record.id] = record;
+      });
+    },
+    async get(id) {
+      return createRecordOperations(await file.read()).get(id);
+    },
+    async listByAddress(address) {
+      return createRecordOperations(await file.read()).listByAddress(address);
+    },
+    async revoke(id) {
+      await file.update(records => {
+        delete records[id];
+      });
+    },
+    async revokeAllForAddress(address) {
+      return file.update(records => createRecordOperations(records).revokeAllForAddress(address));
+    },
+  };
+}
+
+// =============================================================================
+// STORE REGISTRY
+// =============================================================================
+
+/**
+ * Get the session store configured in siwe.config.ts (or registered via setSessionStore)
+ * @returns The store, or null if the session registry is disabled
+ */
+export function getSessionStore(): SessionStore | null {
+  return getGlobalSingleton<SessionStore | null>("sessionStore", () => {
+    switch (siweConfig.sessionStore) {
+      case "memory":
+        return createMemorySessionStore();
+      case "file":
+        return createFileSessionStore();
+      default:
+        return null;
+    }
+  });
+}
+
+/**
+ * Replace the session store with a custom implementation
+ * Call once at startup, e.g. from instrumentation.ts
+ */
+export function setSessionStore(store: SessionStore) {
+  setGlobalSingleton("sessionStore", store);
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Record a new sign in
+ * @returns The session id, or undefined if the session registry is disabled
+ */
+export async function registerSession(
+  data: Pick<SiweSessionRecord, "address" | "chainId" | "createdAt" | "userAgent" | "ip">,
+): Promise<string | undefined> {
+  const store = getSessionStore();
+  if (!store) return undefined;
+
+  const id = crypto.randomUUID();
+  await store.create({ ...data, id, expiresAt: data.createdAt + SESSION_ABSOLUTE_MAX_AGE_MS });
+  return id;
+}
+
+/**
+ * Check that a signed in cookie still has a session record
+ * Always true when the session registry is disabled
+ */
+export async function isSessionActive(session: SiweSessionData): Promise<boolean> {
+  const store = getSessionStore();
+  if (!store) return true;
+  if (!session.sessionId) return false;
+
+  return (await store.get(session.sessionId)) !== null;
+}
@@ -0,0 +1,190 @@
+/**
+ * SIWE Signature Verification
+ *
+ * viem's verifySiweMessage always performs an `eth_call` (ERC-1271 / ERC-6492),
+ * even for plain EOAs. During sign-in bursts that means one RPC request per
+ * attempt. This module first checks whether the address has bytecode, using a
+ * bounded LRU cache per chain, and verifies EOA signatures locally:
+ *
+ * - EOA (no bytecode, signature not ERC-6492 wrapped): ECDSA recovery, no RPC call
+ * - Smart contract account or ERC-6492 signature: verifySiweMessage (on-chain)
+ *
+ * Cache entries expire after `bytecodeCache.ttlSeconds`, so an account that is
+ * deployed after its first lookup is picked up again.
+ *
+ * Used by:
+ * - POST /api/siwe/verify
+ */
+import siweConfig from "./siwe.config";
+import { Address, Hex, PublicClient, isAddressEqual, isErc6492Signature, recoverMessageAddress } from "viem";
+import { parseSiweMessage, validateSiweMessage, verifySiweMessage } from "viem/siwe";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Hit / miss counters of a cache
+ */
+export interface CacheMetrics {
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses), 0 before the first lookup */
+  hitRate: number;
+  /** Entries dropped because the cache was full */
+  evictions: number;
+  /** Current number of entries */
+  size: number;
+}
+
+/**
+ * A size-bounded cache that evicts the least recently used entry
+ */
+export interface LruCache<K, V> {
+  get(key: K): V | undefined;
+  set(key: K, value: V): void;
+  metrics(): CacheMetrics;
+}
+
+export interface VerifySiweSignatureParameters {
+  message: string;
+  signature: Hex;
+  domain: string;
+  nonce: string;
+}
+
+// =============================================================================
+// LRU CACHE
+// =============================================================================
+
+/**
+ * Create an LRU cache (Map insertion order is used as recency order)
+ *
+ * @param maxEntries - Maximum number of entries kept
+ * @param ttlMs - Entries older than this are treated as missing
+ */
+export function createLruCache<K, V>(maxEntries: number, ttlMs: number): LruCache<K, V> {
+  const entries = new Map<K, { value: V; expiresAt: number }>();
+  let hits = 0;
+  let misses = 0;
+  let evictions = 0;
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      entries.delete(key);
+
+      if (!entry || entry.expiresAt <= Date.now()) {
+        misses++;
+        return undefined;
+      }
+
+      // Re-insert to mark as most recently used
+      entries.set(key, entry);
+      hits++;
+      return entry.value;
+    },
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as K);
+        evictions++;
+      }
+    },
+    metrics() {
+      const lookups = hits + misses;
+      return { hits, misses, hitRate: lookups ? hits / lookups : 0, evictions, size: entries.size };
+    },
+  };
+}
+
+// =============================================================================
+// BYTECODE CACHE
+// =============================================================================
+
+/**
+ * One cache per chain id: address => whether it has bytecode
+ * (a boolean instead of the bytecode itself keeps memory use small)
+ */
+const bytecodeCaches = new Map<number, LruCache<string, boolean>>();
+
+function getBytecodeCache(chainId: number): LruCache<string, boolean> {
+  let cache = bytecodeCaches.get(chainId);
+
+  if (!cache) {
+    cache = createLruCache(siweConfig.bytecodeCache.maxEntries, siweConfig.bytecodeCache.ttlSeconds * 1000);
+    bytecodeCaches.set(chainId, cache);
+  }
+
+  return cache;
+}
+
+/**
+ * Check whether an address has bytecode (smart contract account or EIP-7702 delegation)
+ * Lookups are cached per chain; RPC errors are not cached.
+ */
+export async function hasBytecode(client: PublicClient, address: Address): Promise<boolean> {
+  const cache = getBytecodeCache(client.chain?.id ?? 0);
+  const key = address.toLowerCase();
+
+  const cached = cache.get(key);
+  if (cached !== undefined) return cached;
+
+  const code = await client.getCode({ address });
+  const hasCode = !!code && code !== "0x";
+  cache.set(key, hasCode);
+  return hasCode;
+}
+
+/**
+ * Hit / miss metrics of the bytecode caches, keyed by chain id
+ *
+ * @example
+ * ```ts
+ * // e.g. in an internal metrics route
+ * return Response.json(getBytecodeCacheMetrics());
+ * ```
+ */
+export function getBytecodeCacheMetrics(): Record<number, CacheMetrics> {
+  return Object.fromEntries([...bytecodeCaches].map(([chainId, cache]) => [chainId, cache.metrics()]));
+}
+
+// =============================================================================
+// VERIFICATION
+// =============================================================================
+
+/**
+ * Drop-in replacement for viem's verifySiweMessage that skips the RPC call for EOAs
+ * @returns Whether the message is valid and signed by its address
+ */
+export async function verifySiweSignature(
+  client: PublicClient,
+  { message, signature, domain, nonce }: VerifySiweSignatureParameters,
+): Promise<boolean> {
+  const parsedMessage = parseSiweMessage(message);
+  const address = parsedMessage.address;
+
+  let isContract = true;
+  if (address && !isErc6492Signature(signature)) {
+    try {
+      isContract = await hasBytecode(client, address);
+    } catch (error) {
+      // RPC unavailable: let verifySiweMessage decide (it falls back to ECDSA recovery itself)
+      console.error("Failed to look up bytecode:", error);
+    }
+  }
+
+  if (isContract || !address) {
+    return verifySiweMessage(client, { message, signature, domain, nonce });
+  }
+
+  if (!validateSiweMessage({ message: parsedMessage, domain, nonce })) return false;
+
+  try {
+    return isAddressEqual(await recoverMessageAddress({ message, signature }), address);
+  } catch {
+    return false;
+  }
+}
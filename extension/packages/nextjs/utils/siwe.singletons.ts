@@ -0,0 +1,43 @@
+/**
+ * SIWE Global Singletons
+ *
+ * Keeps in-memory state (stores, rate limit buckets, RPC clients) on
+ * `globalThis.__siwe`, so it survives Next.js hot reloads in development.
+ *
+ * Has no server-only imports, so modules shared with the browser
+ * (e.g. siwe.chains.ts) can use it too.
+ */
+
+/**
+ * Get (or create) a value that survives module reloads in development.
+ * Without this, every hot reload would start a fresh in-memory store.
+ */
+export function getGlobalSingleton<T>(key: string, create: () => T): T {
+  const singletons = getSingletons();
+
+  if (!(key in singletons)) {
+    singletons[key] = create();
+  }
+
+  return singletons[key] as T;
+}
+
+/**
+ * Replace a global singleton (used to register custom store implementations)
+ */
+export function setGlobalSingleton<T>(key: string, value: T) {
+  getSingletons()[key] = value;
+}
+
+/**
+ * Remove a global singleton, so the next getGlobalSingleton call creates it again
+ */
+export function deleteGlobalSingleton(key: string) {
+  delete getSingletons()[key];
+}
+
+function getSingletons(): Record<string, unknown> {
+  const globalForSiwe = globalThis as typeof globalThis & { __siwe?: Record<string, unknown> };
+  globalForSiwe.__siwe ??= {};
+  return globalForSiwe.__siwe;
+}
@@ -0,0 +1,102 @@
+/**
+ * SIWE Server Storage Helpers
+ *
+ * Shared building blocks for the server-side SIWE stores:
+ * 1. createJsonFile - Minimal JSON file persistence with serialized writes
+ * 2. createJsonLinesFile - Append-only JSON lines log (one JSON value per line)
+ *
+ * In-memory state is kept across hot reloads with siwe.singletons.ts.
+ *
+ * Server-only (uses the filesystem). Files live in `storageDir` from siwe.config.ts.
+ */
+import siweConfig from "./siwe.config";
+import { appendFile, mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+
+/**
+ * A JSON file that can be read and atomically updated
+ */
+export interface JsonFile<T> {
+  /** Read the current contents (or the initial value if the file does not exist yet) */
+  read(): Promise<T>;
+  /** Read, modify and write the file under an in-process lock. Resolves with the updater's result */
+  update<R>(updater: (data: T) => R): Promise<R>;
+}
+
+/**
+ * An append-only JSON lines file
+ */
+export interface JsonLinesFile<T> {
+  /** Append one value as a single line */
+  append(value: T): Promise<void>;
+}
+
+/**
+ * Create a JSON file store inside `storageDir`
+ *
+ * Writes go to a temp file and are renamed into place, so readers never see
+ * a half-written file. The lock only covers the current process; use a
+ * database-backed store when running several server instances.
+ *
+ * @param fileName - File name relative to `storageDir`
+ * @param initial - Value used when the file does not exist yet
+ */
+export function createJsonFile<T>(fileName: string, initial: () => T): JsonFile<T> {
+  const filePath = path.resolve(process.cwd(), siweConfig.storageDir, fileName);
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function read(): Promise<T> {
+    try {
+      return JSON.parse(await readFile(filePath, "utf8")) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return initial();
+      }
+      throw error;
+    }
+  }
+
+  async function write(data: T): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(data), "utf8");
+    await rename(tempPath, filePath);
+  }
+
+  function update<R>(updater: (data: T) => R): Promise<R> {
+    const run = queue.then(async () => {
+      const data = await read();
+      const result = updater(data);
+      await write(data);
+      return result;
+    });
+    // Keep the queue alive even if this update fails
+    queue = run.catch(() => undefined);
+    return run;
+  }
+
+  return { read, update };
+}
+
+/**
+ * Create an append-only JSON lines file inside `storageDir`
+ * Appends are serialized in-process, so lines from concurrent requests never interleave.
+ *
+ * @param fileName - File name relative to `storageDir`
+ */
+export function createJsonLinesFile<T>(fileName: string): JsonLinesFile<T> {
+  const filePath = path.resolve(process.cwd(), siweConfig.storageDir, fileName);
+  let queue: Promise<unknown> = Promise.resolve();
+
+  function append(value: T): Promise<void> {
+    const run = queue.then(async () => {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await appendFile(filePath, `${JSON.stringify(value)}\n`, "utf8");
+    });
+    // Keep the queue alive even if this append fails
+    queue = run.catch(() => undefined);
+    return run;
+  }
+
+  return { append };
+}
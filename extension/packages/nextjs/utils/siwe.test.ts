@@ -0,0 +1,40 @@
+import { getSafeReturnTo } from "./siwe";
+import { describe, expect, it } from "vitest";
+
+const ORIGIN = "https://example.com";
+
+describe("getSafeReturnTo", () => {
+  it("keeps same-origin paths with their query and hash", () => {
+    expect(getSafeReturnTo("/dashboard", ORIGIN)).toBe("/dashboard");
+    expect(getSafeReturnTo("/notes?id=1#top", ORIGIN)).toBe("/notes?id=1#top");
+  });
+
+  it("normalizes the path", () => {
+    expect(getSafeReturnTo("/a/../b", ORIGIN)).toBe("/b");
+  });
+
+  it("rejects missing values", () => {
+    expect(getSafeReturnTo(null, ORIGIN)).toBeNull();
+    expect(getSafeReturnTo(undefined, ORIGIN)).toBeNull();
+    expect(getSafeReturnTo("", ORIGIN)).toBeNull();
+  });
+
+  it("rejects absolute and relative URLs", () => {
+    expect(getSafeReturnTo("https://evil.com/", ORIGIN)).toBeNull();
+    expect(getSafeReturnTo("javascript:alert(1)", ORIGIN)).toBeNull();
+    expect(getSafeReturnTo("dashboard", ORIGIN)).toBeNull();
+  });
+
+  it("rejects protocol-relative URLs", () => {
+    expect(getSafeReturnTo("//evil.com", ORIGIN)).toBeNull();
+    expect(getSafeReturnTo("//evil.com/path", ORIGIN)).toBeNull();
+  });
+
+  it("rejects backslashes, whitespace and control characters", () => {
+    expect(getSafeReturnTo("/\\evil.com", ORIGIN)).toBeNull();
+    expect(getSafeReturnTo("/\t/evil.com", ORIGIN)).toBeNull();
+    expect(getSafeReturnTo("/\n/evil.com", ORIGIN)).toBeNull();
+    expect(getSafeReturnTo("/ /evil.com", ORIGIN)).toBeNull();
+    expect(getSafeReturnTo("/\x00", ORIGIN)).toBeNull();
+  });
+});
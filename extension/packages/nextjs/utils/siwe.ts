@@ -11,18 +11,34 @@
  * - useSiwe hook
  */
 import siweConfig from "./siwe.config";
+import type { SiweAppData } from "./siwe.hooks";
+import { ReCapAttenuations, appendRecapStatement, encodeRecap } from "./siwe.recap";
 import { SessionOptions } from "iron-session";
 import { Address } from "viem";
+import { createSiweMessage } from "viem/siwe";
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
+/**
+ * A wallet linked to a user (see utils/siwe.accountStore.ts)
+ */
+export interface SiweLinkedAccount {
+  /** The linked Ethereum address */
+  address: Address;
+  /** The chain ID the address proved ownership on */
+  chainId: number;
+  /** Unix timestamp (ms) when the address was linked */
+  linkedAt: number;
+}
+
 /**
  * The data stored in an authenticated SIWE session
+ * TData is the app data attached by the onSignIn hook (see SiweAppData in siwe.hooks.ts)
  */
-export interface SiweSessionData {
-  /** The authenticated Ethereum address (checksummed) */
+export interface SiweSessionData<TData extends object = SiweAppData> {
+  /** The active Ethereum address (checksummed) */
   address?: Address;
   /** The chain ID the user authenticated on */
   chainId?: number;
@@ -32,8 +48,117 @@ export interface SiweSessionData {
   isLoggedIn: boolean;
   /** Unix timestamp (ms) when the session was created */
   signedInAt?: number;
+  /** Resources (URIs) granted by the signed SIWE message */
+  resources?: string[];
+  /** ReCap (EIP-5573) capabilities granted by the signed SIWE message */
+  capabilities?: ReCapAttenuations;
+  /** Token-gated roles resolved at sign in (see `roles` in siwe.config.ts) */
+  roles?: string[];
+  /** Primary ENS name of the address (forward-verified at sign in) */
+  ensName?: string;
+  /** ENS avatar URL of the primary name */
+  ensAvatar?: string;
+  /** Unix timestamp (ms) of the last activity (updated when the session is renewed) */
+  lastSeenAt?: number;
+  /** Server-side session id (only set when a session store is enabled) */
+  sessionId?: string;
+  /** Stable user id shared by all linked wallets (only set when an account store is enabled) */
+  userId?: string;
+  /** Addresses linked to the user; the session can switch between them without signing again */
+  linkedAddresses?: Address[];
+  /** App data attached by the onSignIn hook */
+  data?: TData;
 }
 
+/**
+ * A session tracked in the server-side session store
+ * Used to list and revoke a wallet's active sessions
+ */
+export interface SiweSessionRecord {
+  /** Random session id (also stored in the session cookie) */
+  id: string;
+  /** The authenticated Ethereum address */
+  address: Address;
+  /** The chain ID the user authenticated on */
+  chainId: number;
+  /** Unix timestamp (ms) when the session was created */
+  createdAt: number;
+  /** Unix timestamp (ms) when the session expires */
+  expiresAt: number;
+  /** User agent of the browser that signed in */
+  userAgent?: string;
+  /** IP address of the browser that signed in */
+  ip?: string;
+}
+
+/**
+ * Session data once the user has signed in (address and chainId are guaranteed)
+ */
+export type AuthenticatedSiweSessionData<TData extends object = SiweAppData> = SiweSessionData<TData> & {
+  address: Address;
+  chainId: number;
+};
+
+/**
+ * Machine-readable error codes returned as `errorCode` by /api/siwe/* routes
+ * (and set by useSiwe for client-side failures), so UIs can localize messages
+ * and react programmatically instead of matching on error strings.
+ */
+export const SiweErrorCode = {
+  // Request
+  INVALID_REQUEST: "INVALID_REQUEST",
+  INVALID_MESSAGE: "INVALID_MESSAGE",
+  RATE_LIMITED: "RATE_LIMITED",
+  // Message validation
+  DOMAIN_MISMATCH: "DOMAIN_MISMATCH",
+  NONCE_MISSING: "NONCE_MISSING",
+  NONCE_MISMATCH: "NONCE_MISMATCH",
+  NONCE_EXPIRED: "NONCE_EXPIRED",
+  EXPIRED: "EXPIRED",
+  NOT_YET_VALID: "NOT_YET_VALID",
+  INVALID_SIGNATURE: "INVALID_SIGNATURE",
+  CHAIN_NOT_SUPPORTED: "CHAIN_NOT_SUPPORTED",
+  // A smart contract account must sign again to switch chains
+  SIGNATURE_REQUIRED: "SIGNATURE_REQUIRED",
+  RESOURCE_NOT_ALLOWED: "RESOURCE_NOT_ALLOWED",
+  INVALID_RECAP: "INVALID_RECAP",
+  MESSAGE_MISMATCH: "MESSAGE_MISMATCH",
+  // Address not on the allow-list or on the deny-list (siweAccessLists in siwe.accessList.ts)
+  ADDRESS_NOT_PERMITTED: "ADDRESS_NOT_PERMITTED",
+  // Rejected by an app hook (onBeforeVerify / onSignIn in siwe.hooks.ts)
+  SIGN_IN_REJECTED: "SIGN_IN_REJECTED",
+  // Message policy (messagePolicy in siwe.config.ts)
+  URI_MISMATCH: "URI_MISMATCH",
+  ISSUED_AT_OUT_OF_RANGE: "ISSUED_AT_OUT_OF_RANGE",
+  EXPIRATION_TOO_LONG: "EXPIRATION_TOO_LONG",
+  STATEMENT_MISMATCH: "STATEMENT_MISMATCH",
+  REQUEST_ID_MISMATCH: "REQUEST_ID_MISMATCH",
+  // Sessions & tokens
+  UNAUTHORIZED: "UNAUTHORIZED",
+  SESSION_NOT_FOUND: "SESSION_NOT_FOUND",
+  SESSION_STORE_DISABLED: "SESSION_STORE_DISABLED",
+  TOKEN_MODE_DISABLED: "TOKEN_MODE_DISABLED",
+  INVALID_REFRESH_TOKEN: "INVALID_REFRESH_TOKEN",
+  // Linked accounts (accountStore in siwe.config.ts)
+  ACCOUNT_LINKING_DISABLED: "ACCOUNT_LINKING_DISABLED",
+  ACCOUNT_ALREADY_LINKED: "ACCOUNT_ALREADY_LINKED",
+  ACCOUNT_NOT_LINKED: "ACCOUNT_NOT_LINKED",
+  // Client (useSiwe)
+  WALLET_NOT_CONNECTED: "WALLET_NOT_CONNECTED",
+  USER_REJECTED: "USER_REJECTED",
+  SIGNING_FAILED: "SIGNING_FAILED",
+  NETWORK_ERROR: "NETWORK_ERROR",
+  // Anything else
+  INTERNAL_ERROR: "INTERNAL_ERROR",
+} as const;
+
+export type SiweErrorCode = (typeof SiweErrorCode)[keyof typeof SiweErrorCode];
+
+/**
+ * Error returned to unauthenticated API callers (401)
+ */
+export const UNAUTHORIZED_ERROR = "Not signed in. Please sign in with Ethereum first.";
+
 /**
  * Default session data for unauthenticated users
  */
@@ -98,6 +223,8 @@ export const sessionOptions: SessionOptions = {
     // Cookie expiration (configurable via siwe.config.ts)
     maxAge: 60 * 60 * 24 * siweConfig.sessionDurationDays,
   },
+  // Sealed data lifetime, renewed together with the cookie
+  ttl: 60 * 60 * 24 * siweConfig.sessionDurationDays,
 };
 
 // =============================================================================
@@ -107,15 +234,32 @@ export const sessionOptions: SessionOptions = {
 /**
  * Type guard to check if a session is authenticated
  */
-export function isAuthenticated(
-  session: SiweSessionData,
-): session is SiweSessionData & { address: Address; chainId: number } {
-  return session.isLoggedIn && !!session.address && !!session.chainId;
+export function isAuthenticated<T extends SiweSessionData>(session: T): session is T & AuthenticatedSiweSessionData {
+  return session.isLoggedIn && !!session.address && !!session.chainId && !isSessionExpired(session);
+}
+
+/**
+ * Check whether a domain (host[:port]) may be used to sign in
+ * Entries starting with `*.` match any subdomain, e.g. "*.vercel.app".
+ * An empty list allows any domain (the request's own host is still required to match).
+ */
+export function isDomainAllowed(
+  domain: string,
+  allowedDomains: readonly string[] = siweConfig.allowedDomains,
+): boolean {
+  if (allowedDomains.length === 0) return true;
+
+  const host = domain.toLowerCase();
+  return allowedDomains.some(allowed => {
+    const pattern = allowed.toLowerCase();
+    return pattern.startsWith("*.") ? host.endsWith(pattern.slice(1)) : host === pattern;
+  });
 }
 
 /**
  * Get the current origin (domain + protocol) for SIWE message
  * Used on the client side to construct SIWE messages
+ * (the server derives the same values with getRequestDomain in utils/siwe.server.ts)
  */
 export function getSiweMessageOptions() {
   return {
@@ -126,12 +270,208 @@ export function getSiweMessageOptions() {
   };
 }
 
+/**
+ * Parameters of a sign in message (see prepareSiweMessage)
+ */
+export interface PrepareSiweMessageParameters {
+  address: Address;
+  chainId: number;
+  /** Host of the app, e.g. "example.com" */
+  domain: string;
+  /** Origin of the app, e.g. "https://example.com" */
+  uri: string;
+  nonce: string;
+  requestId?: string;
+  /** @default siweConfig.statement */
+  statement?: string;
+  resources?: string[];
+  /** ReCap (EIP-5573) capabilities, keyed by resource URI */
+  capabilities?: ReCapAttenuations;
+  /** @default now */
+  issuedAt?: Date;
+}
+
+/**
+ * Build the EIP-4361 message text for a sign in
+ * ReCap capabilities go last in the resources and are summarized in the statement.
+ * The message expires after `messageExpirationMinutes`.
+ *
+ * Used by useSiwe (client-built messages) and /api/siwe/message (server-issued messages)
+ */
+export function prepareSiweMessage({
+  statement = siweConfig.statement,
+  resources = [],
+  capabilities,
+  issuedAt = new Date(),
+  ...parameters
+}: PrepareSiweMessageParameters): string {
+  const allResources = [...resources];
+  if (capabilities) {
+    const recap = { att: capabilities, prf: [] };
+    allResources.push(encodeRecap(recap));
+    statement = appendRecapStatement(statement, recap);
+  }
+
+  return createSiweMessage({
+    ...parameters,
+    version: "1",
+    statement,
+    resources: allResources.length > 0 ? allResources : undefined,
+    issuedAt,
+    expirationTime: new Date(issuedAt.getTime() + siweConfig.messageExpirationMinutes * 60 * 1000),
+  });
+}
+
+/**
+ * Limits on the resources of a sign in. Granted resources are stored in the
+ * session cookie, which browsers cap at about 4KB.
+ */
+export const MAX_RESOURCES = 10;
+export const MAX_RESOURCE_LENGTH = 256;
+
+/**
+ * Check the number and length of requested resources
+ * @returns A description of the first violated limit, or null
+ */
+export function getResourceLimitError(resources: readonly string[]): string | null {
+  if (resources.length > MAX_RESOURCES) {
+    return `Too many resources: ${resources.length}. At most ${MAX_RESOURCES} are allowed.`;
+  }
+
+  const tooLong = resources.find(resource => resource.length > MAX_RESOURCE_LENGTH);
+  return tooLong ? `Resource too long (max ${MAX_RESOURCE_LENGTH} characters): ${tooLong.slice(0, 64)}...` : null;
+}
+
+/**
+ * Check whether a resource URI is on the allow-list
+ * Entries ending in `*` match any URI with that prefix
+ */
+export function isResourceAllowed(
+  resource: string,
+  allowedResources: readonly string[] = siweConfig.allowedResources,
+): boolean {
+  return allowedResources.some(allowed =>
+    allowed.endsWith("*") ? resource.startsWith(allowed.slice(0, -1)) : resource === allowed,
+  );
+}
+
+/**
+ * Check whether a session was granted a resource when signing in
+ * Use in API routes / server components for resource-level authorization
+ *
+ * @example
+ * ```ts
+ * if (!hasResource(session, "https://example.com/api/admin")) {
+ *   return Response.json({ error: "Forbidden" }, { status: 403 });
+ * }
+ * ```
+ */
+export function hasResource(session: Pick<SiweSessionData, "resources">, resource: string): boolean {
+  return session.resources?.includes(resource) ?? false;
+}
+
+/**
+ * Check whether a session was granted a role at sign in
+ */
+export function hasRole(session: Pick<SiweSessionData, "roles">, role: string): boolean {
+  return session.roles?.includes(role) ?? false;
+}
+
+/**
+ * All addresses of the signed in user: the linked wallets, or just the active address
+ * Sessions are managed across all of them (a session keeps the address it signed in with)
+ */
+export function getSessionAddresses(
+  session: Pick<AuthenticatedSiweSessionData, "address" | "linkedAddresses">,
+): Address[] {
+  return session.linkedAddresses?.length ? session.linkedAddresses : [session.address];
+}
+
+/**
+ * Check whether a pathname is covered by one of the protected path patterns
+ * A pattern matches itself and any nested path ("/dashboard" matches "/dashboard/settings")
+ */
+export function isProtectedPath(pathname: string, patterns: readonly string[] = siweConfig.protectedPaths): boolean {
+  return patterns.some(pattern => {
+    const prefix = pattern.replace(/\/\*?$/, "");
+    return pathname === prefix || pathname.startsWith(`${prefix}/`);
+  });
+}
+
+/**
+ * Validate a returnTo value before redirecting to it
+ * Only same-origin relative paths are allowed (prevents open redirects).
+ * URL parsers drop tabs and newlines ("/\t/evil.com" is "//evil.com"), so values with
+ * control characters or whitespace are rejected, and the result is resolved against `origin`.
+ * @param origin - The app's origin, e.g. window.location.origin
+ * @returns The path (with query and hash), or null if it is missing or unsafe
+ */
+export function getSafeReturnTo(returnTo: string | null | undefined, origin: string): string | null {
+  if (!returnTo || !returnTo.startsWith("/") || /[\x00-\x20\x7f\\]/.test(returnTo)) {
+    return null;
+  }
+
+  try {
+    const url = new URL(returnTo, origin);
+    return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Session max age in milliseconds (matches cookie maxAge)
  * Configurable via siwe.config.ts
  */
 export const SESSION_MAX_AGE_MS = 60 * 60 * 24 * siweConfig.sessionDurationDays * 1000;
 
+/**
+ * Idle timeout in milliseconds (0 = disabled)
+ */
+export const SESSION_IDLE_TIMEOUT_MS = siweConfig.idleTimeoutMinutes * 60 * 1000;
+
+/**
+ * Absolute session limit in milliseconds, counted from signedInAt
+ */
+export const SESSION_ABSOLUTE_MAX_AGE_MS = 60 * 60 * 24 * siweConfig.absoluteMaxDays * 1000;
+
+/**
+ * Minimum time between renewals of an active session.
+ * Kept well below the idle timeout so active users never hit it.
+ */
+export const SESSION_RENEWAL_INTERVAL_MS = Math.min(5 * 60 * 1000, SESSION_IDLE_TIMEOUT_MS / 4 || Infinity);
+
+/**
+ * Calculate when a session ends: whichever comes first of the absolute limit,
+ * the idle timeout and the (sliding) cookie lifetime
+ * @param signedInAt - Unix timestamp (ms) when session was created
+ * @param lastSeenAt - Unix timestamp (ms) of the last renewal (defaults to signedInAt)
+ * @returns Unix timestamp (ms)
+ */
+export function getSessionExpiresAt(signedInAt: number, lastSeenAt: number = signedInAt): number {
+  const limits = [signedInAt + SESSION_ABSOLUTE_MAX_AGE_MS, lastSeenAt + SESSION_MAX_AGE_MS];
+  if (SESSION_IDLE_TIMEOUT_MS > 0) {
+    limits.push(lastSeenAt + SESSION_IDLE_TIMEOUT_MS);
+  }
+  return Math.min(...limits);
+}
+
+/**
+ * Check whether a session exceeded its idle or absolute limit
+ */
+export function isSessionExpired(session: Pick<SiweSessionData, "signedInAt" | "lastSeenAt">): boolean {
+  if (!session.signedInAt) return true;
+  return getSessionExpiresAt(session.signedInAt, session.lastSeenAt) <= Date.now();
+}
+
+/**
+ * Check whether an active session is due for renewal
+ */
+export function shouldRenewSession(session: Pick<SiweSessionData, "signedInAt" | "lastSeenAt">): boolean {
+  const lastSeenAt = session.lastSeenAt ?? session.signedInAt ?? 0;
+  return Date.now() - lastSeenAt >= SESSION_RENEWAL_INTERVAL_MS;
+}
+
 /**
  * Get relative time string from timestamp
  * @param timestamp - Unix timestamp (ms)
@@ -147,12 +487,13 @@ export function getTimeAgo(timestamp: number): string {
 }
 
 /**
- * Calculate remaining session time from signedInAt timestamp
+ * Calculate remaining session time (nearest of the idle and absolute limits)
  * @param signedInAt - Unix timestamp (ms) when session was created
+ * @param lastSeenAt - Unix timestamp (ms) of the last renewal (defaults to signedInAt)
  * @returns Formatted string like "6d 23h 45m" or "Expired"
  */
-export function getSessionTimeRemaining(signedInAt: number): string {
-  const expiresAt = signedInAt + SESSION_MAX_AGE_MS;
+export function getSessionTimeRemaining(signedInAt: number, lastSeenAt?: number): string {
+  const expiresAt = getSessionExpiresAt(signedInAt, lastSeenAt);
   const remainingMs = expiresAt - Date.now();
 
   if (remainingMs <= 0) {